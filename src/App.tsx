@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Search, MessageSquare, Mic, Image as ImageIcon, Folder, Clock, Settings, X, Plus, Send, Book } from 'lucide-react';
+import { Search, MessageSquare, Mic, Image as ImageIcon, Folder, Clock, Settings, X, Plus, Send, Book, Square, ChevronLeft, ChevronRight, Pencil, RefreshCw, SlidersHorizontal, Upload, ListChecks, Trash2, Bell, Wrench, Play, FileText, Flag, Share2, Copy } from 'lucide-react';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -121,28 +121,294 @@ const ParticleBackground = ({ theme }: { theme: 'dark' | 'light' }) => {
   return <canvas ref={canvasRef} className="fixed inset-0 -z-10" />;
 };
 
+// Renders `text` with the given [start, end) ranges wrapped in <mark>
+const HighlightedText = ({ text, highlights }: { text: string, highlights: [number, number][] }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start < cursor) return;
+    parts.push(text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-[#00ff9d]/30 text-inherit rounded px-0.5">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+// Monospace editor with a line-number gutter; Tab inserts two spaces
+const CodeEditor = ({ value, onChange, theme }: { value: string, onChange: (value: string) => void, theme: 'dark' | 'light' }) => {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = value.split('\n').length;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+    requestAnimationFrame(() => target.setSelectionRange(selectionStart + 2, selectionStart + 2));
+  };
+
+  return (
+    <div className={`flex rounded-xl border overflow-hidden font-mono text-sm ${theme === 'dark' ? 'bg-[#0d0d0d] border-[#333]' : 'bg-white border-[#ddd]'}`}>
+      <div ref={gutterRef} className={`py-3 px-3 text-right select-none overflow-hidden leading-6 ${theme === 'dark' ? 'bg-[#161616] text-[#555]' : 'bg-[#f0f0f0] text-[#999]'}`}>
+        {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+      </div>
+      <textarea
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={e => { if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop; }}
+        spellCheck={false}
+        rows={16}
+        className="flex-1 py-3 px-3 bg-transparent outline-none resize-y leading-6 whitespace-pre"
+      />
+    </div>
+  );
+};
+
+type ToolCallRecord = { id?: string, name: string, args: any, result?: any, error?: string, durationMs?: number, pending?: boolean };
+
+// Collapsible card for one tool call on an AI message
+const ToolCallCard = ({ call, theme, fileUrl }: { call: ToolCallRecord, theme: 'dark' | 'light', fileUrl: (id: string, download?: boolean) => string }) => (
+  <details className={`mb-3 rounded-xl border text-sm ${theme === 'dark' ? 'border-[#2a2a2a] bg-[#161616]' : 'border-[#ddd] bg-white'}`}>
+    <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer select-none">
+      <Wrench size={14} className="opacity-60" />
+      <span className="font-mono">{call.name}</span>
+      <span className={`ml-auto text-xs ${call.pending ? 'opacity-50' : call.error ? 'text-red-500' : 'text-[#00cc7e]'}`}>
+        {call.pending ? 'running...' : call.error ? 'failed' : `done${call.durationMs != null ? ` · ${call.durationMs} ms` : ''}`}
+      </span>
+    </summary>
+    <div className={`px-3 pb-3 space-y-2 border-t ${theme === 'dark' ? 'border-[#2a2a2a]' : 'border-[#eee]'}`}>
+      <div>
+        <div className="text-xs opacity-50 mt-2 mb-1">Arguments</div>
+        <pre className="text-xs whitespace-pre-wrap break-all">{JSON.stringify(call.args, null, 2)}</pre>
+      </div>
+      {call.error && <div className="text-xs text-red-500">{call.error}</div>}
+      {call.result !== undefined && (
+        <div>
+          <div className="text-xs opacity-50 mb-1">Result</div>
+          {typeof call.result?.image === 'string' ? (
+            <img src={call.result.image} alt={call.result.prompt || call.name} className="max-w-full rounded-lg" />
+          ) : call.name === 'run_code' ? (
+            <CodeRunOutput run={call.result} theme={theme} fileUrl={fileUrl} />
+          ) : (
+            <pre className="text-xs whitespace-pre-wrap break-all max-h-60 overflow-y-auto">{JSON.stringify(call.result, null, 2)}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  </details>
+);
+
+type CodeRun = { language: string, code: string, stdout: string, stderr: string, exitCode: number, timedOut: boolean, durationMs: number, files: {id: string, name: string, mimeType: string, size: number}[] };
+
+const RUNNABLE_LANGUAGES: Record<string, string> = { js: 'javascript', javascript: 'javascript', node: 'javascript', py: 'python', python: 'python', python3: 'python' };
+
+// Output of a sandboxed code run: stdout, stderr and downloadable files
+const CodeRunOutput = ({ run, theme, fileUrl }: { run: CodeRun, theme: 'dark' | 'light', fileUrl: (id: string, download?: boolean) => string }) => (
+  <div className={`mt-3 rounded-xl border text-xs font-mono overflow-hidden ${theme === 'dark' ? 'border-[#2a2a2a] bg-[#0d0d0d]' : 'border-[#ddd] bg-white'}`}>
+    <div className={`flex justify-between px-3 py-1.5 border-b font-sans ${theme === 'dark' ? 'border-[#2a2a2a]' : 'border-[#eee]'}`}>
+      <span className="opacity-60">{run.language} · {run.durationMs} ms</span>
+      <span className={run.exitCode === 0 ? 'text-[#00cc7e]' : 'text-red-500'}>{run.timedOut ? 'timed out' : `exit ${run.exitCode}`}</span>
+    </div>
+    {run.stdout && <pre className="px-3 py-2 whitespace-pre-wrap break-all max-h-60 overflow-y-auto">{run.stdout}</pre>}
+    {run.stderr && <pre className="px-3 py-2 whitespace-pre-wrap break-all max-h-60 overflow-y-auto text-red-500">{run.stderr}</pre>}
+    {run.files.length > 0 && (
+      <div className={`px-3 py-2 border-t flex flex-wrap gap-2 font-sans ${theme === 'dark' ? 'border-[#2a2a2a]' : 'border-[#eee]'}`}>
+        {run.files.map(file => file.mimeType.startsWith('image/') ? (
+          <img key={file.id} src={fileUrl(file.id)} alt={file.name} className="max-w-full rounded-lg" />
+        ) : (
+          <a key={file.id} href={fileUrl(file.id, true)} download={file.name} className="px-2 py-0.5 rounded-full border border-current opacity-70 hover:opacity-100">
+            {file.name} ({(file.size / 1024).toFixed(1)} KB)
+          </a>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+type AttachmentInfo = { id: string, name: string, mimeType: string, size: number };
+type GeneratedImageInfo = { id: string, attachmentId: string, prompt: string, provider?: string, model?: string, style?: string | null, aspectRatio?: string | null, sourceAttachmentId?: string | null, masked?: boolean, name: string, mimeType: string, size: number, createdAt: string };
+
+type ShareInfo = { id: string, token: string, path: string, conversationId: string, title: string, messageCount: number, expiresAt: string | null, createdAt: string };
+type SharedChat = { token: string, title: string, messages: {role: 'user' | 'ai', text: string, interrupted?: boolean, attachments: AttachmentInfo[], codeRuns?: CodeRun[], timestamp: string}[], expiresAt: string | null, createdAt: string };
+
+const sharedFileUrl = (shareToken: string, attachmentId: string) => `/api/public/shares/${shareToken}/files/${attachmentId}`;
+
+// File content is authenticated by a short-lived cookie; `session` changes once it is first issued so
+// anything rendered before then loads again
+const MEDIA_SESSION_REFRESH_MS = 30 * 60 * 1000;
+const mediaFileUrl = (id: string, session: number | null, download = false) =>
+  `/api/files/${id}/content?session=${session || 0}${download ? '&download=1' : ''}`;
+
+// `/share/<token>` opens a shared conversation
+const SHARE_PATH = /^\/share\/([\w-]+)\/?$/;
+
+type ArticleSummary = { slug: string, title: string, summary: string, version: number, updatedAt: string };
+type ArticleInfo = ArticleSummary & { sections: {heading: string, body: string}[], related: {title: string, slug: string, exists: boolean}[], citations: {title: string, url: string}[], provider?: string | null, model?: string | null, regenerationQueued: boolean, openFlags: number, createdAt: string, latestVersion?: number };
+
+// Grokpedia cross-links are written [[Topic]] or [[Topic|label]]; they become #wiki: links the reader intercepts
+const withArticleLinks = (text: string) =>
+  text.replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, topic, label) => `[${(label || topic).trim()}](#wiki:${encodeURIComponent(topic.trim())})`);
+
+const IMAGE_STYLES = [
+  { id: '', label: 'No style' },
+  { id: 'photo', label: 'Photo' },
+  { id: 'illustration', label: 'Illustration' },
+  { id: 'anime', label: 'Anime' },
+  { id: 'watercolor', label: 'Watercolor' },
+  { id: 'render', label: '3D render' },
+  { id: 'pixel', label: 'Pixel art' },
+  { id: 'sketch', label: 'Sketch' }
+];
+const IMAGE_ASPECT_RATIOS = ['1:1', '3:2', '2:3', '4:3', '3:4', '16:9', '9:16'];
+
+// Voice mode tuning: mic RMS levels (0-1) and timings
+const VOICE_SPEECH_LEVEL = 0.04;
+const VOICE_BARGE_IN_LEVEL = 0.12;
+const VOICE_SILENCE_MS = 1200;
+const VOICE_IDLE_RESTART_MS = 30000;
+
+// Brush overlay for inpainting. Strokes are painted into `canvasRef` at the image's natural resolution.
+const MaskCanvas = ({ src, canvasRef, brushSize, onPaint }: { src: string, canvasRef: React.RefObject<HTMLCanvasElement | null>, brushSize: number, onPaint: () => void }) => {
+  const drawing = useRef(false);
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !drawing.current) return;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#00ff9d';
+    ctx.beginPath();
+    ctx.arc((e.clientX - rect.left) * scale, (e.clientY - rect.top) * scale, (brushSize / 2) * scale, 0, Math.PI * 2);
+    ctx.fill();
+    onPaint();
+  };
+
+  return (
+    <div className="relative inline-block">
+      <img
+        src={src}
+        alt="Source"
+        onLoad={e => {
+          const canvas = canvasRef.current;
+          if (!canvas) return;
+          canvas.width = e.currentTarget.naturalWidth;
+          canvas.height = e.currentTarget.naturalHeight;
+        }}
+        className="block max-w-full max-h-[50vh] rounded-2xl"
+      />
+      <canvas
+        ref={canvasRef}
+        onPointerDown={e => { drawing.current = true; e.currentTarget.setPointerCapture(e.pointerId); paint(e); }}
+        onPointerMove={paint}
+        onPointerUp={() => { drawing.current = false; }}
+        className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-2xl"
+      />
+    </div>
+  );
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024 ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+    : bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+
+// File chips for a message or the composer; images render as thumbnails and open in a new tab.
+// In a shared conversation, files are read through the share's token instead of the user's.
+const AttachmentChips = ({ attachments, session, theme, onRemove, shareToken }: { attachments: AttachmentInfo[], session: number | null, theme: 'dark' | 'light', onRemove?: (id: string) => void, shareToken?: string }) => (
+  <div className="flex flex-wrap gap-2">
+    {attachments.map(attachment => {
+      const url = shareToken ? sharedFileUrl(shareToken, attachment.id) : mediaFileUrl(attachment.id, session);
+      if (attachment.mimeType.startsWith('audio/')) {
+        return <audio key={attachment.id} controls preload="none" src={url} title={attachment.name} className="h-9 max-w-full" />;
+      }
+      return (
+        <div key={attachment.id} className={`relative flex items-center gap-2 rounded-xl border text-xs overflow-hidden ${theme === 'dark' ? 'border-[#333] bg-[#1a1a1a]' : 'border-[#ccc] bg-white'}`}>
+          <a href={url} target="_blank" rel="noreferrer" title={attachment.name} className="flex items-center gap-2 pr-3 hover:opacity-80">
+            {attachment.mimeType.startsWith('image/') ? (
+              <img src={url} alt={attachment.name} className="w-12 h-12 object-cover" />
+            ) : (
+              <span className="pl-3 py-2"><FileText size={16} /></span>
+            )}
+            <span className="truncate max-w-[160px]">{attachment.name}</span>
+            <span className="opacity-50">{formatBytes(attachment.size)}</span>
+          </a>
+          {onRemove && (
+            <button onClick={() => onRemove(attachment.id)} title="Remove" className="pr-2 opacity-60 hover:opacity-100">
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+// Parses a Server-Sent Events response body, invoking `onEvent` for each event.
+const readEventStream = async (response: Response, onEvent: (event: string, data: any) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      let event = 'message';
+      let data = '';
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      if (data) onEvent(event, JSON.parse(data));
+    }
+  }
+};
+
 export default function App() {
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
-  const [view, setView] = useState<'home' | 'chat' | 'history' | 'imagine' | 'voice' | 'projects' | 'grokpedia'>('home');
-  const [messages, setMessages] = useState<{id?: number, role: 'user' | 'ai', text: string}[]>([]);
-  const [conversations, setConversations] = useState<{id: string, title: string, updated_at: string}[]>([]);
+  const [view, setView] = useState<'home' | 'chat' | 'history' | 'imagine' | 'voice' | 'projects' | 'project' | 'files' | 'grokpedia' | 'shared'>(SHARE_PATH.test(window.location.pathname) ? 'shared' : 'home');
+  const [messages, setMessages] = useState<{id?: string, role: 'user' | 'ai', text: string, interrupted?: boolean, siblingIds?: string[], siblingIndex?: number, toolCalls?: ToolCallRecord[], codeRuns?: CodeRun[], attachments?: AttachmentInfo[], sources?: {kind?: 'message' | 'document', conversationId?: string, messageId?: string, projectId?: string, documentId?: string, title: string, snippet: string}[]}[]>([]);
+  const [conversations, setConversations] = useState<{id: string, title: string, updated_at: string, projectId?: string | null, provider?: string | null, model?: string | null, temperature?: number | null, maxTokens?: number | null, systemPrompt?: string | null}[]>([]);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  const [newChatProjectId, setNewChatProjectId] = useState<string | null>(null);
   const [inputText, setInputText] = useState('');
   const [isThinking, setIsThinking] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const [isFetching, setIsFetching] = useState(true);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [imageResults, setImageResults] = useState<GeneratedImageInfo[]>([]);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const [images, setImages] = useState<GeneratedImageInfo[]>([]);
+  const [imagePage, setImagePage] = useState({ page: 1, pages: 1 });
+  const [imageOptions, setImageOptions] = useState({ count: 1, style: '', aspectRatio: '1:1' });
+  const [editSource, setEditSource] = useState<{attachmentId: string, name: string} | null>(null);
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const [imageLineage, setImageLineage] = useState<{original: AttachmentInfo | null, ancestors: GeneratedImageInfo[], image: GeneratedImageInfo, children: GeneratedImageInfo[]} | null>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const imageSourceInputRef = useRef<HTMLInputElement>(null);
   
-  const [selectedFile, setSelectedFile] = useState<{data: string, mimeType: string} | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<AttachmentInfo[]>([]);
+  const [isUploadingAttachment, setIsUploadingAttachment] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isListening, setIsListening] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   
   const [projects, setProjects] = useState<{id: string, name: string, description: string, content: string}[]>([]);
-  const [tasks, setTasks] = useState<{id: string, title: string, completed: boolean}[]>([]);
+  const [tasks, setTasks] = useState<{id: string, title: string, completed: boolean, dueDate?: string | null, priority: 'low' | 'medium' | 'high', notes: string, projectId?: string | null, subtasks: {id?: string, title: string, completed: boolean}[], prompt: string, schedule: {kind: 'none' | 'once' | 'cron', runAt?: string, cron?: string}, conversationId?: string | null, nextRunAt?: string | null, lastRunAt?: string | null, lastRunStatus?: 'succeeded' | 'failed' | null}[]>([]);
+  const [personas, setPersonas] = useState<{id: string, name: string, provider?: string | null, model?: string | null, temperature?: number | null, maxTokens?: number | null, systemPrompt?: string | null}[]>([]);
+  const [defaultPersonaId, setDefaultPersonaId] = useState<string | null>(null);
+  const [modelOptions, setModelOptions] = useState<{provider: string, model: string, label: string}[]>([]);
   
   const [user, setUser] = useState<{id: string, name: string, email: string, avatarColor: string} | null>(null);
   const [token, setToken] = useState<string | null>(null);
+  const [mediaSession, setMediaSession] = useState<number | null>(null);
   const [authForm, setAuthForm] = useState({ name: '', email: '', password: '' });
   const [authError, setAuthError] = useState('');
   
@@ -153,7 +419,10 @@ export default function App() {
     manageAccount: false,
     userMenu: false,
     tasks: false,
-    createProject: false
+    createProject: false,
+    projectDocuments: false,
+    search: false,
+    share: false
   });
 
   const [settings, setSettingsState] = useState({
@@ -164,26 +433,59 @@ export default function App() {
     cmdEnter: false,
     richText: true,
     autoVideo: false,
-    improveModel: false,
     personalize: true,
     linkSharing: true,
     nsfw: false,
+    crossChatMemory: false,
+    toolsEnabled: true,
     responseStyle: 'custom'
   });
 
-  const toggleSetting = (key: keyof typeof settings) => {
-    setSettingsState(prev => ({ ...prev, [key]: !prev[key] }));
+  // Optimistically apply a settings change, then persist it (rolling back on failure)
+  const saveSettings = async (patch: Partial<typeof settings> & { theme?: 'dark' | 'light' }) => {
+    const previous = { settings, theme };
+    const { theme: nextTheme, ...settingsPatch } = patch;
+    if (nextTheme) setTheme(nextTheme);
+    setSettingsState(prev => ({ ...prev, ...settingsPatch }));
+    if (!user || !token) return;
+    try {
+      const res = await apiFetch('/api/settings', {
+        method: 'PATCH',
+        body: JSON.stringify(patch)
+      });
+      if (!res.ok) throw new Error((await res.json()).error || "Failed to save settings");
+    } catch (error) {
+      console.error("Failed to save settings:", error);
+      setTheme(previous.theme);
+      setSettingsState(previous.settings);
+    }
+  };
+
+  const toggleSetting = (key: Exclude<keyof typeof settings, 'responseStyle'>) => {
+    saveSettings({ [key]: !settings[key] });
   };
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatRef = useRef<any>(null);
 
+  const [scrollTargetId, setScrollTargetId] = useState<string | null>(null);
+
   useEffect(() => {
-    if (settings.autoScroll) {
+    if (settings.autoScroll && !scrollTargetId) {
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }
   }, [messages, isThinking, settings.autoScroll]);
 
+  // Scroll to a message opened from search once it has rendered
+  useEffect(() => {
+    if (!scrollTargetId) return;
+    const element = document.getElementById(`message-${scrollTargetId}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setScrollTargetId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [messages, scrollTargetId]);
+
   useEffect(() => {
     const storedUser = localStorage.getItem('grokUser');
     const storedToken = localStorage.getItem('grokToken');
@@ -216,6 +518,21 @@ export default function App() {
     return response;
   };
 
+  // Keep the media cookie fresh while signed in, and clear it on sign-out
+  useEffect(() => {
+    if (!token) {
+      setMediaSession(null);
+      fetch('/api/media-session', { method: 'DELETE' }).catch(() => {});
+      return;
+    }
+    const refresh = () => apiFetch('/api/media-session', { method: 'POST' })
+      .then(res => { if (res.ok) setMediaSession(prev => prev ?? Date.now()); })
+      .catch(error => console.error("Failed to start media session:", error));
+    refresh();
+    const interval = setInterval(refresh, MEDIA_SESSION_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [token]);
+
   useEffect(() => {
     const fetchConversations = async () => {
       if (!user || !token) {
@@ -257,12 +574,79 @@ export default function App() {
         console.error("Failed to fetch tasks:", error);
       }
     };
+    const fetchPersonas = async () => {
+      try {
+        const res = await apiFetch('/api/personas');
+        if (res.ok) {
+          const data = await res.json();
+          setPersonas(data.personas);
+          setDefaultPersonaId(data.defaultPersonaId);
+        }
+      } catch (error) {
+        console.error("Failed to fetch personas:", error);
+      }
+    };
+    const fetchSettings = async () => {
+      try {
+        const res = await apiFetch('/api/settings');
+        if (res.ok) {
+          const { theme: storedTheme, ...storedSettings } = await res.json();
+          setTheme(storedTheme);
+          setSettingsState(prev => ({ ...prev, ...storedSettings }));
+        }
+      } catch (error) {
+        console.error("Failed to fetch settings:", error);
+      }
+    };
+    const fetchModels = async () => {
+      try {
+        const res = await apiFetch('/api/models');
+        if (res.ok) setModelOptions(await res.json());
+      } catch (error) {
+        console.error("Failed to fetch models:", error);
+      }
+    };
     if (user && token) {
       fetchProjects();
       fetchTasks();
+      fetchPersonas();
+      fetchModels();
+      fetchSettings();
     }
   }, [user, token]);
 
+  // Poll for scheduled-task notifications; shown as toasts when `notifyThinking` is on
+  useEffect(() => {
+    if (!user || !token) return;
+    const pollNotifications = async () => {
+      try {
+        const res = await apiFetch('/api/notifications?unread=1');
+        if (!res.ok) return;
+        const unread = await res.json();
+        if (unread.length === 0) return;
+
+        await apiFetch('/api/notifications/read', {
+          method: 'POST',
+          body: JSON.stringify({ ids: unread.map((n: any) => n.id) })
+        });
+        const [tasksRes, convRes] = await Promise.all([apiFetch('/api/tasks'), apiFetch('/api/conversations')]);
+        if (tasksRes.ok) setTasks(await tasksRes.json());
+        if (convRes.ok) setConversations(await convRes.json());
+
+        if (!settings.notifyThinking) return;
+        setToasts(prev => [...unread, ...prev].slice(0, 5));
+        if ('Notification' in window && Notification.permission === 'granted' && document.hidden) {
+          unread.forEach((n: any) => new Notification(n.title, { body: n.body }));
+        }
+      } catch (error) {
+        console.error("Failed to fetch notifications:", error);
+      }
+    };
+    pollNotifications();
+    const interval = setInterval(pollNotifications, 30000);
+    return () => clearInterval(interval);
+  }, [user, token, settings.notifyThinking]);
+
   useEffect(() => {
     const fetchMessages = async () => {
       if (!user || !token || !currentConversationId) {
@@ -285,8 +669,28 @@ export default function App() {
     fetchMessages();
   }, [user, token, currentConversationId]);
 
+  // Create a new conversation if none exists
+  const ensureConversation = async (title: string, conversationId: string | null) => {
+    if (conversationId) return conversationId;
+    try {
+      const res = await apiFetch('/api/conversations', {
+        method: 'POST',
+        body: JSON.stringify({ title, projectId: newChatProjectId })
+      });
+      const data = await res.json();
+      setCurrentConversationId(data.id);
+      setNewChatProjectId(null);
+      setConversations(prev => [data, ...prev]);
+      return data.id as string;
+    } catch (error) {
+      console.error("Failed to create conversation", error);
+      return null;
+    }
+  };
+
   const handleSend = async (text: string = inputText) => {
-    if (!text.trim() && !selectedFile) return;
+    if (!text.trim() && pendingAttachments.length === 0) return;
+    if (isStreaming || isUploadingAttachment) return;
     
     if (!user || !token) {
       setModals(prev => ({ ...prev, signIn: true }));
@@ -297,74 +701,300 @@ export default function App() {
       setView('chat');
     }
     
-    let activeConvId = currentConversationId;
-    
-    // Create new conversation if none exists
-    if (!activeConvId) {
-      try {
-        const res = await apiFetch('/api/conversations', {
-          method: 'POST',
-          body: JSON.stringify({ title: text ? text.substring(0, 30) + "..." : "Image Upload" })
-        });
-        const data = await res.json();
-        activeConvId = data.id;
-        setCurrentConversationId(data.id);
-        setConversations(prev => [{id: data.id, title: data.title, updated_at: new Date().toISOString()}, ...prev]);
-      } catch (error) {
-        console.error("Failed to create conversation", error);
-      }
-    }
+    const activeConvId = await ensureConversation(text ? text.substring(0, 30) + "..." : pendingAttachments[0].name, currentConversationId);
 
-    const userMsg = { role: 'user' as const, text: text || "[Image attached]" };
+    const attachments = pendingAttachments;
+    const userMsg = { role: 'user' as const, text: text || `[Attached: ${attachments.map(a => a.name).join(", ")}]`, attachments };
     const newMessages = [...messages, userMsg];
     setMessages(newMessages);
     setInputText('');
-    const currentFile = selectedFile;
-    setSelectedFile(null);
+    setPendingAttachments([]);
+    await streamChat('/api/chat/stream', activeConvId, {
+      conversationId: activeConvId, 
+      text, 
+      attachmentIds: attachments.map(a => a.id)
+    });
+  };
+
+  const refreshMessages = async (conversationId: string | null) => {
+    if (!conversationId) return;
+    try {
+      const res = await apiFetch(`/api/messages?conversationId=${conversationId}`);
+      if (res.ok) setMessages(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch messages:", error);
+    }
+  };
+
+  // Stream an AI reply from one of the SSE chat endpoints into the message list; resolves to the saved reply's id
+  const streamChat = async (url: string, conversationId: string | null, body: any) => {
     setIsThinking(true);
+    setIsStreaming(true);
+
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    let started = false;
+    let aiText = '';
+    let sources: any[] = [];
+    let toolCalls: ToolCallRecord[] = [];
+    let replyId: string | undefined;
 
     try {
-      const response = await apiFetch('/api/chat', {
+      const response = await apiFetch(url, {
         method: 'POST',
-        body: JSON.stringify({ 
-          conversationId: activeConvId, 
-          text, 
-          history: messages,
-          image: currentFile
-        })
+        signal: controller.signal,
+        body: JSON.stringify(body)
       });
 
-      const data = await response.json();
-      if (response.ok) {
-        const aiMsg = { role: 'ai' as const, text: data.text };
-        setMessages(prev => [...prev, aiMsg]);
-      } else {
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
         throw new Error(data.error || "Failed to get AI response");
       }
+
+      const showPartial = () => {
+        const partial = { role: 'ai' as const, text: aiText, sources, toolCalls };
+        if (!started) {
+          started = true;
+          setIsThinking(false);
+          setMessages(prev => [...prev, partial]);
+        } else {
+          setMessages(prev => [...prev.slice(0, -1), partial]);
+        }
+      };
+      await readEventStream(response, (event, data) => {
+        if (event === 'sources') {
+          sources = data.sources;
+        } else if (event === 'chunk') {
+          aiText += data.text;
+          showPartial();
+        } else if (event === 'tool_call') {
+          toolCalls = [...toolCalls, { ...data, pending: true }];
+          showPartial();
+        } else if (event === 'tool_result') {
+          const index = toolCalls.findIndex(c => c.pending && c.name === data.name && c.id === data.id);
+          toolCalls = index === -1 ? [...toolCalls, data] : toolCalls.map((c, i) => i === index ? data : c);
+          showPartial();
+        } else if (event === 'done') {
+          replyId = data.id;
+          const aiMsg = { id: data.id, role: 'ai' as const, text: data.text, sources, toolCalls, attachments: data.attachments };
+          setMessages(prev => started ? [...prev.slice(0, -1), aiMsg] : [...prev, aiMsg]);
+        } else if (event === 'aborted') {
+          // Whatever the server kept (partial text or finished tool results) arrives with the refresh below
+          replyId = data.id;
+        } else if (event === 'error') {
+          throw new Error(data.error || "Failed to get AI response");
+        }
+      });
+      await refreshMessages(conversationId);
+      // Tools may have changed tasks or projects
+      if (toolCalls.some(c => c.name === 'create_task' && !c.error)) {
+        const tasksRes = await apiFetch('/api/tasks');
+        if (tasksRes.ok) setTasks(await tasksRes.json());
+      }
+      if (toolCalls.some(c => c.name === 'update_project' && !c.error)) {
+        const projectsRes = await apiFetch('/api/projects');
+        if (projectsRes.ok) setProjects(await projectsRes.json());
+      }
     } catch (error: any) {
-      console.error("Chat error:", error);
-      setMessages(prev => [...prev, { role: 'ai', text: "Oops, something went wrong. Please try again." }]);
+      if (controller.signal.aborted) {
+        // The server persists the partial answer and finished tool results as an interrupted message
+        if (started) {
+          setMessages(prev => [...prev.slice(0, -1), { role: 'ai', text: aiText, sources, toolCalls: toolCalls.filter(c => !c.pending), interrupted: true }]);
+        }
+      } else {
+        console.error("Chat error:", error);
+        setMessages(prev => [...prev, { role: 'ai', text: "Oops, something went wrong. Please try again." }]);
+      }
     } finally {
+      streamAbortRef.current = null;
       setIsThinking(false);
+      setIsStreaming(false);
+    }
+    return replyId;
+  };
+
+  const [runningCodeKey, setRunningCodeKey] = useState<string | null>(null);
+
+  const handleRunCode = async (messageId: string | undefined, language: string, code: string) => {
+    const key = `${messageId}:${code}`;
+    setRunningCodeKey(key);
+    try {
+      const res = await apiFetch('/api/code/run', {
+        method: 'POST',
+        body: JSON.stringify({ language, code, messageId })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to run code");
+      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, codeRuns: [...(m.codeRuns || []), data] } : m));
+    } catch (error) {
+      console.error("Failed to run code:", error);
+      alert("Failed to run code. Please try again.");
+    } finally {
+      setRunningCodeKey(null);
+    }
+  };
+
+  // Code blocks in AI messages get a Run button for JavaScript and Python
+  const markdownComponents = (messageId?: string) => ({
+    pre: ({ children }: any) => {
+      const codeProps = (children as any)?.props || {};
+      const language = RUNNABLE_LANGUAGES[(/language-(\w+)/.exec(codeProps.className || '') || [])[1]?.toLowerCase()];
+      const code = String(codeProps.children ?? '').replace(/\n$/, '');
+      return (
+        <div className="relative group">
+          <pre className={settings.wrapCode ? 'whitespace-pre-wrap' : ''}>{children}</pre>
+          {language && messageId && !isStreaming && (
+            <button
+              onClick={() => handleRunCode(messageId, language, code)}
+              disabled={runningCodeKey === `${messageId}:${code}`}
+              className={`absolute top-2 right-2 px-2 py-1 rounded-lg text-xs flex items-center gap-1 disabled:opacity-50 ${theme === 'dark' ? 'bg-[#222] hover:bg-[#333]' : 'bg-[#e0e0e0] hover:bg-[#d0d0d0]'}`}
+            >
+              <Play size={12} />
+              {runningCodeKey === `${messageId}:${code}` ? 'Running...' : 'Run'}
+            </button>
+          )}
+        </div>
+      );
+    }
+  });
+
+  const handleRegenerate = async (index: number) => {
+    const msg = messages[index];
+    if (!msg.id || isStreaming) return;
+    setMessages(prev => prev.slice(0, index));
+    await streamChat(`/api/messages/${msg.id}/regenerate`, currentConversationId, {});
+  };
+
+  const [editingMessage, setEditingMessage] = useState<{ index: number, text: string } | null>(null);
+  const handleEditMessage = async () => {
+    if (!editingMessage || !editingMessage.text.trim() || isStreaming) return;
+    const { index, text } = editingMessage;
+    const msg = messages[index];
+    if (!msg.id) return;
+    setEditingMessage(null);
+    setMessages(prev => [...prev.slice(0, index), { role: 'user', text }]);
+    await streamChat(`/api/messages/${msg.id}/edit`, currentConversationId, { text });
+  };
+
+  const handleSelectBranch = async (messageId: string) => {
+    if (!currentConversationId || isStreaming) return;
+    try {
+      const res = await apiFetch(`/api/conversations/${currentConversationId}/select`, {
+        method: 'POST',
+        body: JSON.stringify({ messageId })
+      });
+      if (res.ok) setMessages(await res.json());
+    } catch (error) {
+      console.error("Failed to switch branch:", error);
+    }
+  };
+
+  const handleStop = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  const fetchImages = async (page: number) => {
+    try {
+      const res = await apiFetch(`/api/images?page=${page}`);
+      if (res.ok) {
+        const data = await res.json();
+        setImages(data.images);
+        setImagePage({ page: data.page, pages: data.pages });
+      }
+    } catch (error) {
+      console.error("Failed to fetch images:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (view === 'imagine' && user && token) fetchImages(1);
+  }, [view, user, token]);
+
+  const handleDeleteImage = async (image: GeneratedImageInfo) => {
+    if (!confirm("Delete this image? It will also be removed from any chats it was sent to.")) return;
+    try {
+      const res = await apiFetch(`/api/images/${image.id}`, { method: 'DELETE' });
+      if (res.ok) fetchImages(images.length === 1 && imagePage.page > 1 ? imagePage.page - 1 : imagePage.page);
+    } catch (error) {
+      console.error("Failed to delete image:", error);
+    }
+  };
+
+  // Painted strokes become transparent pixels on an opaque mask; transparent marks the area to repaint
+  const exportMask = () => {
+    const painted = maskCanvasRef.current;
+    if (!painted || !hasMask) return undefined;
+    const mask = document.createElement('canvas');
+    mask.width = painted.width;
+    mask.height = painted.height;
+    const ctx = mask.getContext('2d')!;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(painted, 0, 0);
+    return { data: mask.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+  };
+
+  const clearMask = () => {
+    const canvas = maskCanvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const selectEditSource = (source: {attachmentId: string, name: string} | null) => {
+    setEditSource(source);
+    setHasMask(false);
+    setView('imagine');
+  };
+
+  const handleUploadImageSource = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const res = await apiFetch('/api/attachments', {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(file.name) },
+        body: file
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Upload failed.");
+        return;
+      }
+      selectEditSource({ attachmentId: data.id, name: data.name });
+    } catch (error) {
+      console.error("Failed to upload image:", error);
+      alert("Upload failed.");
     }
   };
 
-  const handleGenerateImage = async () => {
-    if (!inputText.trim()) return;
+  const handleGenerateImage = async (overrides: {prompt?: string, source?: {attachmentId: string, name: string} | null, count?: number} = {}) => {
+    const prompt = overrides.prompt ?? inputText;
+    const source = overrides.source !== undefined ? overrides.source : editSource;
+    if (!prompt.trim()) return;
     if (!user || !token) {
       setModals(prev => ({ ...prev, signIn: true }));
       return;
     }
     setIsGeneratingImage(true);
-    setGeneratedImage(null);
+    setImageResults([]);
     try {
       const response = await apiFetch('/api/generate-image', {
         method: 'POST',
-        body: JSON.stringify({ prompt: inputText })
+        body: JSON.stringify({
+          prompt,
+          count: overrides.count ?? imageOptions.count,
+          style: imageOptions.style || undefined,
+          aspectRatio: source ? undefined : imageOptions.aspectRatio,
+          sourceAttachmentId: source?.attachmentId,
+          mask: source && source === editSource ? exportMask() : undefined
+        })
       });
       const data = await response.json();
       if (response.ok) {
-        setGeneratedImage(data.imageUrl);
+        setImageResults(data.images);
+        fetchImages(1);
       } else {
         alert(data.error || "Failed to generate image.");
       }
@@ -376,8 +1006,21 @@ export default function App() {
     }
   };
 
+  const handleImageVariations = (image: GeneratedImageInfo) =>
+    handleGenerateImage({ prompt: `A variation of this image: ${image.prompt}`, source: { attachmentId: image.attachmentId, name: image.name }, count: 4 });
+
+  const openImageLineage = async (imageId: string) => {
+    try {
+      const res = await apiFetch(`/api/images/${imageId}/lineage`);
+      if (res.ok) setImageLineage(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch image lineage:", error);
+    }
+  };
+
   const handleNewChat = () => {
     setCurrentConversationId(null);
+    setNewChatProjectId(null);
     setMessages([]);
     setView('chat');
   };
@@ -386,7 +1029,8 @@ export default function App() {
     if (!user) return;
     if (confirm("Are you sure you want to delete all conversations?")) {
       try {
-        await apiFetch('/api/messages', { method: 'DELETE' });
+        const res = await apiFetch('/api/messages', { method: 'DELETE' });
+        if (!res.ok) throw new Error((await res.json()).error || "Failed to delete conversations");
         setMessages([]);
         setConversations([]);
         setCurrentConversationId(null);
@@ -394,10 +1038,29 @@ export default function App() {
         setModals(prev => ({ ...prev, settings: false }));
       } catch (error) {
         console.error("Failed to delete messages:", error);
+        alert("Failed to delete conversations. Please try again.");
       }
     }
   };
 
+  const handleExportData = async () => {
+    if (!user) return;
+    try {
+      const res = await apiFetch('/api/account/export');
+      if (!res.ok) throw new Error("Export failed");
+      const blob = await res.blob();
+      const disposition = res.headers.get('Content-Disposition') || '';
+      const a = document.createElement('a');
+      a.href = URL.createObjectURL(blob);
+      a.download = disposition.match(/filename="(.+)"/)?.[1] || 'grok-export.zip';
+      a.click();
+      URL.revokeObjectURL(a.href);
+    } catch (error) {
+      console.error("Failed to export data:", error);
+      alert("Failed to export your data. Please try again.");
+    }
+  };
+
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     setAuthError('');
@@ -470,79 +1133,1065 @@ export default function App() {
         method: 'POST',
         body: JSON.stringify(projectForm)
       });
+      const data = await res.json();
       if (res.ok) {
-        const newProject = await res.json();
-        setProjects(prev => [newProject, ...prev]);
+        setProjects(prev => [data, ...prev]);
         setModals(prev => ({ ...prev, createProject: false }));
         setProjectForm({ name: '', description: '', content: '' });
+      } else {
+        alert(data.error || "Failed to create project.");
       }
     } catch (error) {
       console.error("Failed to create project:", error);
     }
   };
 
-  const [taskTitle, setTaskTitle] = useState('');
-  const handleCreateTask = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!user || !taskTitle.trim()) return;
+  const [documentsProjectId, setDocumentsProjectId] = useState<string | null>(null);
+  const [projectDocuments, setProjectDocuments] = useState<{id: string, name: string, mimeType: string, size: number, createdAt: string}[]>([]);
+  const [isUploadingDocument, setIsUploadingDocument] = useState(false);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+
+  const openProjectDocuments = async (projectId: string) => {
+    setDocumentsProjectId(projectId);
+    setProjectDocuments([]);
+    setModals(prev => ({ ...prev, projectDocuments: true }));
     try {
-      const res = await apiFetch('/api/tasks', {
-        method: 'POST',
-        body: JSON.stringify({ title: taskTitle })
-      });
-      if (res.ok) {
-        const newTask = await res.json();
-        setTasks(prev => [newTask, ...prev]);
-        setTaskTitle('');
+      const res = await apiFetch(`/api/projects/${projectId}/documents`);
+      if (res.ok) setProjectDocuments(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch documents:", error);
+    }
+  };
+
+  const handleUploadDocuments = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!documentsProjectId || files.length === 0) return;
+    setIsUploadingDocument(true);
+    for (const file of files) {
+      try {
+        const res = await apiFetch(`/api/projects/${documentsProjectId}/documents`, {
+          method: 'POST',
+          headers: { 'Content-Type': file.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(file.name) },
+          body: file
+        });
+        const data = await res.json();
+        if (res.ok) {
+          setProjectDocuments(prev => [data, ...prev]);
+        } else {
+          alert(`${file.name}: ${data.error || "Upload failed."}`);
+        }
+      } catch (error) {
+        console.error("Failed to upload document:", error);
+        alert(`${file.name}: Upload failed.`);
       }
+    }
+    setIsUploadingDocument(false);
+  };
+
+  const handleDeleteDocument = async (documentId: string) => {
+    if (!documentsProjectId) return;
+    try {
+      const res = await apiFetch(`/api/projects/${documentsProjectId}/documents/${documentId}`, { method: 'DELETE' });
+      if (res.ok) setProjectDocuments(prev => prev.filter(d => d.id !== documentId));
     } catch (error) {
-      console.error("Failed to create task:", error);
+      console.error("Failed to delete document:", error);
     }
   };
 
-  const handleToggleTask = async (taskId: string, completed: boolean) => {
+  const handleNewProjectChat = (projectId: string) => {
+    setCurrentConversationId(null);
+    setNewChatProjectId(projectId);
+    setMessages([]);
+    setView('chat');
+  };
+
+  const [files, setFiles] = useState<(AttachmentInfo & {conversationId: string | null, conversationTitle: string | null, createdAt: string})[]>([]);
+  const [fileUsage, setFileUsage] = useState({ used: 0, quota: 0 });
+  const [fileFilters, setFileFilters] = useState({ q: '', type: '', source: '', conversationId: '', projectId: '' });
+  const [renamingFile, setRenamingFile] = useState<{id: string, name: string} | null>(null);
+  const [previewFile, setPreviewFile] = useState<{file: AttachmentInfo, text?: string} | null>(null);
+
+  const fetchFiles = async () => {
+    const params = new URLSearchParams(Object.entries(fileFilters).filter(([, value]) => value));
     try {
-      const res = await apiFetch(`/api/tasks/${taskId}`, {
-        method: 'PATCH',
-        body: JSON.stringify({ completed: !completed })
-      });
+      const res = await apiFetch(`/api/files?${params}`);
       if (res.ok) {
-        setTasks(prev => prev.map(t => t.id === taskId ? { ...t, completed: !completed } : t));
+        const data = await res.json();
+        setFiles(data.files);
+        setFileUsage(data.usage);
       }
     } catch (error) {
-      console.error("Failed to toggle task:", error);
+      console.error("Failed to fetch files:", error);
     }
   };
 
-  const startListening = () => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    if (!SpeechRecognition) {
-      alert("Speech recognition is not supported in this browser.");
-      return;
+  useEffect(() => {
+    if (view !== 'files' || !user || !token) return;
+    const timer = setTimeout(fetchFiles, 250);
+    return () => clearTimeout(timer);
+  }, [view, user, token, fileFilters]);
+
+  const fileUrl = (id: string, download = false) => mediaFileUrl(id, mediaSession, download);
+
+  const handlePreviewFile = async (file: AttachmentInfo) => {
+    setPreviewFile({ file });
+    if (file.mimeType.startsWith('image/') || file.mimeType.startsWith('audio/') || file.mimeType === 'application/pdf') return;
+    try {
+      // Only the first 64 KB is shown
+      const res = await apiFetch(`/api/files/${file.id}/content`, { headers: { Range: 'bytes=0-65535' } });
+      const text = res.ok ? await res.text() : "Preview unavailable.";
+      setPreviewFile(prev => prev?.file.id === file.id ? { file, text } : prev);
+    } catch (error) {
+      console.error("Failed to preview file:", error);
     }
-    const recognition = new SpeechRecognition();
-    recognition.onstart = () => setIsListening(true);
-    recognition.onresult = (event: any) => {
-      const transcript = event.results[0][0].transcript;
-      setInputText(transcript);
-      handleSend(transcript);
-    };
-    recognition.onend = () => setIsListening(false);
-    recognition.start();
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const base64 = event.target?.result as string;
-      setSelectedFile({
-        data: base64.split(',')[1],
-        mimeType: file.type
-      });
+  const handleRenameFile = async () => {
+    if (!renamingFile) return;
+    try {
+      const res = await apiFetch(`/api/files/${renamingFile.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ name: renamingFile.name })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to rename file.");
+        return;
+      }
+      setFiles(prev => prev.map(f => f.id === data.id ? { ...f, name: data.name } : f));
+      setRenamingFile(null);
+    } catch (error) {
+      console.error("Failed to rename file:", error);
+    }
+  };
+
+  const handleDeleteFile = async (file: AttachmentInfo) => {
+    if (!confirm(`Delete "${file.name}"? It will also be removed from the messages it was sent with.`)) return;
+    try {
+      const res = await apiFetch(`/api/files/${file.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        setFiles(prev => prev.filter(f => f.id !== file.id));
+        setFileUsage(prev => ({ ...prev, used: Math.max(0, prev.used - file.size) }));
+        setPendingAttachments(prev => prev.filter(a => a.id !== file.id));
+      }
+    } catch (error) {
+      console.error("Failed to delete file:", error);
+    }
+  };
+
+  // Start a new chat with the file already attached
+  const handleUseFileInChat = (file: AttachmentInfo) => {
+    setCurrentConversationId(null);
+    setMessages([]);
+    setPendingAttachments(prev => prev.some(a => a.id === file.id) ? prev : [...prev, { id: file.id, name: file.name, mimeType: file.mimeType, size: file.size }]);
+    setView('chat');
+  };
+
+  const [projectDetail, setProjectDetail] = useState<{id: string, name: string, description: string, content: string, conversations: {id: string, title: string, updated_at: string}[], tasks: {id: string, title: string, completed: boolean}[]} | null>(null);
+  const [projectDraft, setProjectDraft] = useState({ name: '', description: '', content: '' });
+  const [projectVersions, setProjectVersions] = useState<{version: number, content: string, createdAt: string}[]>([]);
+  const [projectDiff, setProjectDiff] = useState<{version: number, against: number | null, lines: {type: 'same' | 'added' | 'removed', text: string}[]} | null>(null);
+
+  const fetchProjectVersions = async (projectId: string) => {
+    try {
+      const res = await apiFetch(`/api/projects/${projectId}/versions`);
+      if (res.ok) setProjectVersions(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch versions:", error);
+    }
+  };
+
+  const openProject = async (projectId: string) => {
+    try {
+      const res = await apiFetch(`/api/projects/${projectId}`);
+      if (!res.ok) throw new Error((await res.json()).error || "Failed to fetch project");
+      const data = await res.json();
+      setProjectDetail(data);
+      setProjectDraft({ name: data.name, description: data.description || '', content: data.content || '' });
+      setProjectDiff(null);
+      setView('project');
+      fetchProjectVersions(projectId);
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      alert("Failed to open project.");
+    }
+  };
+
+  const handleSaveProject = async () => {
+    if (!projectDetail) return;
+    try {
+      const res = await apiFetch(`/api/projects/${projectDetail.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(projectDraft)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Failed to save project.");
+        return;
+      }
+      setProjectDetail(prev => prev ? { ...prev, ...data } : prev);
+      setProjects(prev => prev.map(p => p.id === data.id ? data : p));
+      fetchProjectVersions(data.id);
+    } catch (error) {
+      console.error("Failed to save project:", error);
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!projectDetail) return;
+    if (!confirm(`Delete project "${projectDetail.name}"? Its documents and history are removed; chats and tasks are kept.`)) return;
+    try {
+      const res = await apiFetch(`/api/projects/${projectDetail.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json()).error || "Failed to delete project");
+      setProjects(prev => prev.filter(p => p.id !== projectDetail.id));
+      setConversations(prev => prev.map(c => c.projectId === projectDetail.id ? { ...c, projectId: null } : c));
+      setProjectDetail(null);
+      setView('projects');
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      alert("Failed to delete project.");
+    }
+  };
+
+  const handleShowDiff = async (version: number) => {
+    if (!projectDetail) return;
+    try {
+      const res = await apiFetch(`/api/projects/${projectDetail.id}/versions/${version}/diff`);
+      if (res.ok) setProjectDiff(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch diff:", error);
+    }
+  };
+
+  const [taskTitle, setTaskTitle] = useState('');
+  const [taskSort, setTaskSort] = useState<'created' | 'due' | 'priority'>('created');
+  const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
+  const [subtaskTitle, setSubtaskTitle] = useState('');
+  const [extractingMessageId, setExtractingMessageId] = useState<string | null>(null);
+  const [scheduleDraft, setScheduleDraft] = useState({ prompt: '', kind: 'none', runAt: '', cron: '' });
+  const [taskRuns, setTaskRuns] = useState<{id: string, status: string, error?: string, startedAt: string, finishedAt?: string}[]>([]);
+  const [toasts, setToasts] = useState<{id: string, title: string, body?: string, conversationId?: string}[]>([]);
+
+  const sortedTasks = [...tasks].sort((a, b) => {
+    if (taskSort === 'due') return (a.dueDate ? Date.parse(a.dueDate) : Infinity) - (b.dueDate ? Date.parse(b.dueDate) : Infinity);
+    if (taskSort === 'priority') return ['high', 'medium', 'low'].indexOf(a.priority) - ['high', 'medium', 'low'].indexOf(b.priority);
+    return 0;
+  });
+
+  const handleCreateTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !taskTitle.trim()) return;
+    try {
+      const res = await apiFetch('/api/tasks', {
+        method: 'POST',
+        body: JSON.stringify({ title: taskTitle })
+      });
+      if (res.ok) {
+        const newTask = await res.json();
+        setTasks(prev => [newTask, ...prev]);
+        setTaskTitle('');
+      }
+    } catch (error) {
+      console.error("Failed to create task:", error);
+    }
+  };
+
+  const updateTask = async (taskId: string, patch: any) => {
+    try {
+      const res = await apiFetch(`/api/tasks/${taskId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(patch)
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setTasks(prev => prev.map(t => t.id === taskId ? data : t));
+      } else {
+        alert(data.error || "Failed to update task.");
+      }
+    } catch (error) {
+      console.error("Failed to update task:", error);
+    }
+  };
+
+  const handleToggleTask = (taskId: string, completed: boolean) => updateTask(taskId, { completed: !completed });
+
+  const handleDeleteTask = async (taskId: string) => {
+    try {
+      const res = await apiFetch(`/api/tasks/${taskId}`, { method: 'DELETE' });
+      if (res.ok) setTasks(prev => prev.filter(t => t.id !== taskId));
+    } catch (error) {
+      console.error("Failed to delete task:", error);
+    }
+  };
+
+  // datetime-local inputs take local wall-clock time without a zone
+  const toLocalInputValue = (date: string) => {
+    const d = new Date(date);
+    return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  };
+
+  const handleExpandTask = async (task: typeof tasks[number]) => {
+    if (expandedTaskId === task.id) {
+      setExpandedTaskId(null);
+      return;
+    }
+    setExpandedTaskId(task.id);
+    setSubtaskTitle('');
+    setScheduleDraft({
+      prompt: task.prompt || '',
+      kind: task.schedule?.kind || 'none',
+      runAt: task.schedule?.runAt ? toLocalInputValue(task.schedule.runAt) : '',
+      cron: task.schedule?.cron || '0 9 * * 1-5'
+    });
+    setTaskRuns([]);
+    if (!task.prompt) return;
+    try {
+      const res = await apiFetch(`/api/tasks/${task.id}/runs`);
+      if (res.ok) setTaskRuns(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch task runs:", error);
+    }
+  };
+
+  const handleSaveSchedule = async (taskId: string) => {
+    const schedule = scheduleDraft.kind === 'once'
+      ? { kind: 'once', runAt: scheduleDraft.runAt ? new Date(scheduleDraft.runAt).toISOString() : null }
+      : scheduleDraft.kind === 'cron'
+        ? { kind: 'cron', cron: scheduleDraft.cron, utcOffset: -new Date().getTimezoneOffset() }
+        : { kind: 'none' };
+    await updateTask(taskId, { prompt: scheduleDraft.prompt, schedule });
+    if (settings.notifyThinking && 'Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+  };
+
+  const handleRunTaskNow = async (taskId: string) => {
+    try {
+      const res = await apiFetch(`/api/tasks/${taskId}/run`, { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) {
+        setTasks(prev => prev.map(t => t.id === taskId ? data : t));
+      } else {
+        alert(data.error || "Failed to run task.");
+      }
+    } catch (error) {
+      console.error("Failed to run task:", error);
+    }
+  };
+
+  const handleExtractTasks = async (messageId: string) => {
+    setExtractingMessageId(messageId);
+    try {
+      const res = await apiFetch(`/api/messages/${messageId}/extract-tasks`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to extract tasks");
+      if (data.length === 0) {
+        alert("No action items found in this message.");
+        return;
+      }
+      setTasks(prev => [...data, ...prev]);
+      setModals(prev => ({ ...prev, tasks: true }));
+    } catch (error) {
+      console.error("Failed to extract tasks:", error);
+      alert("Failed to extract tasks. Please try again.");
+    } finally {
+      setExtractingMessageId(null);
+    }
+  };
+
+  // Grokpedia
+  const [article, setArticle] = useState<ArticleInfo | null>(null);
+  const [articleIndex, setArticleIndex] = useState<{articles: ArticleSummary[], page: number, pages: number, total: number}>({ articles: [], page: 1, pages: 1, total: 0 });
+  const [articleQuery, setArticleQuery] = useState('');
+  const [articleLoading, setArticleLoading] = useState<string | null>(null);
+  const [articleVersions, setArticleVersions] = useState<{version: number, title: string, provider?: string | null, model?: string | null, createdAt: string}[] | null>(null);
+  const [articleFlag, setArticleFlag] = useState<{section: string, reason: string} | null>(null);
+  const articleTopRef = useRef<HTMLDivElement>(null);
+
+  const fetchArticleIndex = async (page: number, q = articleQuery) => {
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (q.trim()) params.set('q', q.trim());
+      const res = await apiFetch(`/api/articles?${params}`);
+      if (res.ok) setArticleIndex(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch articles:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (view !== 'grokpedia' || !user || !token) return;
+    const timeout = setTimeout(() => fetchArticleIndex(1), 250);
+    return () => clearTimeout(timeout);
+  }, [view, user, token, articleQuery]);
+
+  const showArticle = (data: ArticleInfo) => {
+    setArticle(data);
+    setArticleVersions(null);
+    setArticleFlag(null);
+    articleTopRef.current?.scrollIntoView();
+  };
+
+  // Opens the cached article, or generates it on first lookup (which can take a while)
+  const openArticle = async (topic: string) => {
+    if (!topic.trim()) return;
+    if (!user || !token) {
+      setModals(prev => ({ ...prev, signIn: true }));
+      return;
+    }
+    setView('grokpedia');
+    setArticleLoading(topic.trim());
+    try {
+      const res = await apiFetch('/api/articles/lookup', {
+        method: 'POST',
+        body: JSON.stringify({ topic })
+      });
+      const data = await res.json();
+      if (res.ok) showArticle(data);
+      else alert(data.error || "Failed to load article.");
+    } catch (error) {
+      console.error("Failed to load article:", error);
+    } finally {
+      setArticleLoading(null);
+    }
+  };
+
+  const openIndexedArticle = async (slug: string) => {
+    try {
+      const res = await apiFetch(`/api/articles/${slug}`);
+      if (res.ok) showArticle(await res.json());
+    } catch (error) {
+      console.error("Failed to load article:", error);
+    }
+  };
+
+  const openArticleVersion = async (version: number) => {
+    if (!article) return;
+    try {
+      const res = await apiFetch(`/api/articles/${article.slug}/versions/${version}`);
+      if (res.ok) showArticle(await res.json());
+    } catch (error) {
+      console.error("Failed to load article version:", error);
+    }
+  };
+
+  const toggleArticleVersions = async () => {
+    if (!article) return;
+    if (articleVersions) {
+      setArticleVersions(null);
+      return;
+    }
+    try {
+      const res = await apiFetch(`/api/articles/${article.slug}/versions`);
+      if (res.ok) setArticleVersions(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch article versions:", error);
+    }
+  };
+
+  const handleRegenerateArticle = async () => {
+    if (!article || !confirm("Regenerate this article? The current text is kept in its version history.")) return;
+    setArticleLoading(article.title);
+    try {
+      const res = await apiFetch(`/api/articles/${article.slug}/regenerate`, { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) showArticle(data);
+      else alert(data.error || "Failed to regenerate article.");
+    } catch (error) {
+      console.error("Failed to regenerate article:", error);
+    } finally {
+      setArticleLoading(null);
+    }
+  };
+
+  const handleFlagArticle = async () => {
+    if (!article || !articleFlag?.reason.trim()) return;
+    try {
+      const res = await apiFetch(`/api/articles/${article.slug}/flags`, {
+        method: 'POST',
+        body: JSON.stringify(articleFlag)
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setArticle(data);
+        setArticleFlag(null);
+      } else {
+        alert(data.error || "Failed to flag article.");
+      }
+    } catch (error) {
+      console.error("Failed to flag article:", error);
+    }
+  };
+
+  const articleMarkdownComponents = {
+    a: ({ href, children }: any) => href?.startsWith('#wiki:') ? (
+      <a href={href} onClick={e => { e.preventDefault(); openArticle(decodeURIComponent(href.slice(6))); }} className="text-[#00ff9d] hover:underline">{children}</a>
+    ) : (
+      <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+    )
+  };
+
+  // Sharing
+  const [sharedChat, setSharedChat] = useState<SharedChat | null>(null);
+  const [sharedChatError, setSharedChatError] = useState('');
+  const [shares, setShares] = useState<ShareInfo[]>([]);
+  const [shareExpiry, setShareExpiry] = useState('');
+  const [isForking, setIsForking] = useState(false);
+
+  useEffect(() => {
+    const match = SHARE_PATH.exec(window.location.pathname);
+    if (!match) return;
+    const fetchSharedChat = async () => {
+      try {
+        const res = await fetch(`/api/public/shares/${match[1]}`);
+        const data = await res.json();
+        if (res.ok) setSharedChat({ ...data, token: match[1] });
+        else setSharedChatError(data.error || "This link is invalid or has expired.");
+      } catch (error) {
+        console.error("Failed to load shared conversation:", error);
+        setSharedChatError("Failed to load shared conversation.");
+      }
     };
-    reader.readAsDataURL(file);
+    fetchSharedChat();
+  }, []);
+
+  // Leaving the shared view drops its URL so a reload opens the app normally
+  useEffect(() => {
+    if (view !== 'shared' && SHARE_PATH.test(window.location.pathname)) window.history.replaceState(null, '', '/');
+  }, [view]);
+
+  const fetchShares = async (conversationId?: string) => {
+    try {
+      const res = await apiFetch(`/api/shares${conversationId ? `?conversationId=${conversationId}` : ''}`);
+      if (res.ok) setShares(await res.json());
+    } catch (error) {
+      console.error("Failed to fetch shares:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!user || !token) return;
+    if (modals.share && currentConversationId) fetchShares(currentConversationId);
+    else if (modals.settings) fetchShares();
+  }, [modals.share, modals.settings, currentConversationId, user, token]);
+
+  const shareUrl = (share: ShareInfo) => `${window.location.origin}${share.path}`;
+
+  const copyShareLink = async (share: ShareInfo) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share));
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+      prompt("Copy this link:", shareUrl(share));
+    }
+  };
+
+  const handleCreateShare = async () => {
+    if (!currentConversationId) return;
+    try {
+      const res = await apiFetch(`/api/conversations/${currentConversationId}/shares`, {
+        method: 'POST',
+        body: JSON.stringify({ expiresInDays: shareExpiry ? Number(shareExpiry) : null })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setShares(prev => [data, ...prev]);
+        copyShareLink(data);
+      } else {
+        alert(data.error || "Failed to create link.");
+      }
+    } catch (error) {
+      console.error("Failed to create share:", error);
+    }
+  };
+
+  const handleRevokeShare = async (share: ShareInfo) => {
+    if (!confirm("Revoke this link? Anyone who has it will no longer be able to open it.")) return;
+    try {
+      const res = await apiFetch(`/api/shares/${share.id}`, { method: 'DELETE' });
+      if (res.ok) setShares(prev => prev.filter(s => s.id !== share.id));
+    } catch (error) {
+      console.error("Failed to revoke share:", error);
+    }
+  };
+
+  // Fork the snapshot into the viewer's own account and open it
+  const handleContinueSharedChat = async () => {
+    if (!sharedChat) return;
+    if (!user || !token) {
+      setModals(prev => ({ ...prev, signIn: true }));
+      return;
+    }
+    setIsForking(true);
+    try {
+      const res = await apiFetch(`/api/public/shares/${sharedChat.token}/fork`, { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) {
+        setConversations(prev => [data, ...prev]);
+        setCurrentConversationId(data.id);
+        setSharedChat(null);
+        setView('chat');
+      } else {
+        alert(data.error || "Failed to continue this chat.");
+      }
+    } catch (error) {
+      console.error("Failed to continue shared chat:", error);
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  const currentConversation = conversations.find(c => c.id === currentConversationId);
+  const [showChatSettings, setShowChatSettings] = useState(false);
+  const [chatSettingsDraft, setChatSettingsDraft] = useState({ temperature: '', maxTokens: '', systemPrompt: '' });
+
+  useEffect(() => {
+    setChatSettingsDraft({
+      temperature: currentConversation?.temperature != null ? String(currentConversation.temperature) : '',
+      maxTokens: currentConversation?.maxTokens != null ? String(currentConversation.maxTokens) : '',
+      systemPrompt: currentConversation?.systemPrompt || ''
+    });
+  }, [currentConversationId, showChatSettings]);
+
+  const updateConversationSettings = async (patch: any) => {
+    if (!currentConversationId) return;
+    try {
+      const res = await apiFetch(`/api/conversations/${currentConversationId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(patch)
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setConversations(prev => prev.map(c => c.id === data.id ? data : c));
+      } else {
+        alert(data.error || "Failed to update chat settings.");
+      }
+    } catch (error) {
+      console.error("Failed to update chat settings:", error);
+    }
+  };
+
+  const handleSaveChatSettings = async () => {
+    await updateConversationSettings({
+      temperature: chatSettingsDraft.temperature === '' ? null : Number(chatSettingsDraft.temperature),
+      maxTokens: chatSettingsDraft.maxTokens === '' ? null : Number(chatSettingsDraft.maxTokens),
+      systemPrompt: chatSettingsDraft.systemPrompt || null
+    });
+    setShowChatSettings(false);
+  };
+
+  const handleApplyPersona = (personaId: string) => {
+    const persona = personas.find(p => p.id === personaId);
+    if (!persona) return;
+    updateConversationSettings({
+      provider: persona.provider ?? null,
+      model: persona.model ?? null,
+      temperature: persona.temperature ?? null,
+      maxTokens: persona.maxTokens ?? null,
+      systemPrompt: persona.systemPrompt ?? null
+    });
+  };
+
+  const [personaForm, setPersonaForm] = useState({ name: '', systemPrompt: '', temperature: '', model: '' });
+  const handleCreatePersona = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!personaForm.name.trim()) return;
+    const option = modelOptions.find(o => `${o.provider}:${o.model}` === personaForm.model);
+    try {
+      const res = await apiFetch('/api/personas', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: personaForm.name,
+          systemPrompt: personaForm.systemPrompt || undefined,
+          temperature: personaForm.temperature === '' ? undefined : Number(personaForm.temperature),
+          provider: option?.provider,
+          model: option?.model
+        })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setPersonas(prev => [...prev, data]);
+        setPersonaForm({ name: '', systemPrompt: '', temperature: '', model: '' });
+      } else {
+        alert(data.error || "Failed to create persona.");
+      }
+    } catch (error) {
+      console.error("Failed to create persona:", error);
+    }
+  };
+
+  const handleDeletePersona = async (personaId: string) => {
+    try {
+      const res = await apiFetch(`/api/personas/${personaId}`, { method: 'DELETE' });
+      if (res.ok) {
+        setPersonas(prev => prev.filter(p => p.id !== personaId));
+        if (defaultPersonaId === personaId) setDefaultPersonaId(null);
+      }
+    } catch (error) {
+      console.error("Failed to delete persona:", error);
+    }
+  };
+
+  const handleSetDefaultPersona = async (personaId: string | null) => {
+    try {
+      const res = await apiFetch('/api/personas/default', {
+        method: 'PUT',
+        body: JSON.stringify({ personaId })
+      });
+      if (res.ok) setDefaultPersonaId(personaId);
+    } catch (error) {
+      console.error("Failed to set default persona:", error);
+    }
+  };
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importReport, setImportReport] = useState<any>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const runImport = async (file: File, preview: boolean) => {
+    setIsImporting(true);
+    try {
+      const res = await apiFetch(`/api/import${preview ? '?preview=1' : ''}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error || "Import failed.");
+        setImportFile(null);
+        setImportReport(null);
+        return;
+      }
+      setImportReport(data);
+      if (!preview) {
+        setImportFile(null);
+        const convRes = await apiFetch('/api/conversations');
+        if (convRes.ok) setConversations(await convRes.json());
+      }
+    } catch (error) {
+      console.error("Import error:", error);
+      alert("Import failed. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImportSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportFile(file);
+    runImport(file, true);
+  };
+
+  const [searchFilters, setSearchFilters] = useState({ role: '', from: '', to: '' });
+  const [searchMode, setSearchMode] = useState<'keyword' | 'semantic'>('keyword');
+  const [searchHits, setSearchHits] = useState<any[]>([]);
+  const [activeHitIndex, setActiveHitIndex] = useState(0);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setModals(prev => ({ ...prev, search: !prev.search }));
+      } else if (e.key === 'Escape') {
+        setModals(prev => ({ ...prev, search: false }));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!modals.search || !user || !searchQuery.trim()) {
+      setSearchHits([]);
+      return;
+    }
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: searchQuery });
+        if (searchMode === 'keyword') {
+          if (searchFilters.role) params.set('role', searchFilters.role);
+          if (searchFilters.from) params.set('from', searchFilters.from);
+          if (searchFilters.to) params.set('to', `${searchFilters.to}T23:59:59`);
+        }
+        const res = await apiFetch(`/api/search${searchMode === 'semantic' ? '/semantic' : ''}?${params}`);
+        if (res.ok) {
+          setSearchHits((await res.json()).hits);
+          setActiveHitIndex(0);
+        }
+      } catch (error) {
+        console.error("Search error:", error);
+      }
+    }, searchMode === 'semantic' ? 500 : 250);
+    return () => clearTimeout(timeout);
+  }, [modals.search, searchQuery, searchFilters, searchMode, user]);
+
+  const handleOpenSearchHit = async (hit: any) => {
+    if (hit.kind === 'document') {
+      openProjectDocuments(hit.projectId);
+      return;
+    }
+    setModals(prev => ({ ...prev, search: false }));
+    if (hit.messageId) {
+      // Make sure the matching message is on the selected branch
+      try {
+        await apiFetch(`/api/conversations/${hit.conversationId}/select`, {
+          method: 'POST',
+          body: JSON.stringify({ messageId: hit.messageId })
+        });
+      } catch (error) {
+        console.error("Failed to select branch:", error);
+      }
+      setScrollTargetId(hit.messageId);
+    }
+    if (hit.conversationId === currentConversationId) {
+      await refreshMessages(hit.conversationId);
+    } else {
+      setCurrentConversationId(hit.conversationId);
+    }
+    setView('chat');
+  };
+
+  // Voice mode: a hands-free loop of listen -> transcribe -> reply -> speak. The mic stays open
+  // while the reply plays, so talking over it (barge-in) stops playback and starts listening again.
+  const [voiceState, setVoiceState] = useState<'off' | 'listening' | 'transcribing' | 'thinking' | 'speaking'>('off');
+  const [voiceTranscript, setVoiceTranscript] = useState('');
+  const voiceRef = useRef<{
+    stream: MediaStream,
+    context: AudioContext,
+    analyser: AnalyserNode,
+    timer: number,
+    state: string,
+    recorder: MediaRecorder | null,
+    chunks: Blob[],
+    startedAt: number,
+    heardAt: number,
+    speechTicks: number,
+    loudTicks: number,
+    audio: HTMLAudioElement | null,
+    conversationId: string | null
+  } | null>(null);
+
+  const setVoicePhase = (state: 'listening' | 'transcribing' | 'thinking' | 'speaking') => {
+    if (voiceRef.current) voiceRef.current.state = state;
+    setVoiceState(state);
+  };
+
+  const micLevel = (analyser: AnalyserNode) => {
+    const samples = new Uint8Array(analyser.fftSize);
+    analyser.getByteTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += ((sample - 128) / 128) ** 2;
+    return Math.sqrt(sum / samples.length);
+  };
+
+  const startRecording = () => {
+    const voice = voiceRef.current;
+    if (!voice) return;
+    const recorder = new MediaRecorder(voice.stream);
+    voice.chunks = [];
+    voice.startedAt = Date.now();
+    voice.heardAt = 0;
+    voice.speechTicks = 0;
+    voice.recorder = recorder;
+    recorder.ondataavailable = e => { if (e.data.size > 0) voice.chunks.push(e.data); };
+    recorder.start();
+    setVoicePhase('listening');
+  };
+
+  // `keep` sends the clip off as the user's turn; otherwise it is discarded
+  const stopRecording = (keep: boolean) => {
+    const voice = voiceRef.current;
+    const recorder = voice?.recorder;
+    if (!voice || !recorder) return;
+    voice.recorder = null;
+    recorder.onstop = keep ? () => handleVoiceClip(new Blob(voice.chunks, { type: recorder.mimeType })) : null;
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  const bargeIn = () => {
+    const voice = voiceRef.current;
+    if (!voice) return;
+    voice.audio?.pause();
+    voice.audio = null;
+    startRecording();
+  };
+
+  const voiceTick = () => {
+    const voice = voiceRef.current;
+    if (!voice) return;
+    const level = micLevel(voice.analyser);
+    const now = Date.now();
+    if (voice.state === 'listening' && voice.recorder) {
+      if (level > VOICE_SPEECH_LEVEL) {
+        voice.heardAt = now;
+        voice.speechTicks++;
+      }
+      if (voice.heardAt && now - voice.heardAt > VOICE_SILENCE_MS) {
+        // A short blip is noise, not a turn
+        if (voice.speechTicks >= 3) {
+          stopRecording(true);
+          setVoicePhase('transcribing');
+        } else {
+          voice.heardAt = 0;
+          voice.speechTicks = 0;
+        }
+      } else if (!voice.heardAt && now - voice.startedAt > VOICE_IDLE_RESTART_MS) {
+        stopRecording(false);
+        startRecording();
+      }
+    } else if (voice.state === 'speaking') {
+      voice.loudTicks = level > VOICE_BARGE_IN_LEVEL ? voice.loudTicks + 1 : 0;
+      if (voice.loudTicks >= 3) bargeIn();
+    }
+  };
+
+  const handleVoiceClip = async (clip: Blob) => {
+    const voice = voiceRef.current;
+    if (!voice) return;
+    setVoicePhase('transcribing');
+    try {
+      const res = await apiFetch('/api/voice/transcribe', {
+        method: 'POST',
+        headers: { 'Content-Type': clip.type || 'audio/webm' },
+        body: clip
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Transcription failed");
+      if (!voiceRef.current) return;
+      if (!data.text) return startRecording();
+
+      setVoiceTranscript(data.text);
+      setVoicePhase('thinking');
+      const conversationId = await ensureConversation(data.text.substring(0, 30) + "...", voice.conversationId);
+      voice.conversationId = conversationId;
+      setMessages(prev => [...prev, { role: 'user', text: data.text, attachments: [data.attachment] }]);
+      const replyId = await streamChat('/api/chat/stream', conversationId, { conversationId, text: data.text, attachmentIds: [data.attachment.id] });
+      if (!voiceRef.current) return;
+      if (!replyId) return startRecording();
+
+      const speechRes = await apiFetch(`/api/messages/${replyId}/speech`, { method: 'POST' });
+      const speech = await speechRes.json();
+      if (!speechRes.ok) throw new Error(speech.error || "Speech synthesis failed");
+      if (!voiceRef.current) return;
+      setMessages(prev => prev.map(m => m.id === replyId ? { ...m, attachments: [...(m.attachments || []), speech] } : m));
+
+      const audio = new Audio(fileUrl(speech.id));
+      voice.audio = audio;
+      voice.loudTicks = 0;
+      audio.onended = () => {
+        if (voiceRef.current && voice.audio === audio) {
+          voice.audio = null;
+          startRecording();
+        }
+      };
+      setVoicePhase('speaking');
+      await audio.play();
+    } catch (error) {
+      console.error("Voice turn failed:", error);
+      if (voiceRef.current) startRecording();
+    }
+  };
+
+  const startVoiceMode = async () => {
+    if (!user || !token) {
+      setModals(prev => ({ ...prev, signIn: true }));
+      return;
+    }
+    setView('voice');
+    if (voiceRef.current) return;
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      alert("Voice mode needs microphone recording, which this browser does not support.");
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      context.createMediaStreamSource(stream).connect(analyser);
+      voiceRef.current = {
+        stream,
+        context,
+        analyser,
+        timer: window.setInterval(voiceTick, 100),
+        state: 'listening',
+        recorder: null,
+        chunks: [],
+        startedAt: 0,
+        heardAt: 0,
+        speechTicks: 0,
+        loudTicks: 0,
+        audio: null,
+        conversationId: currentConversationId
+      };
+      setVoiceTranscript('');
+      startRecording();
+    } catch (error) {
+      console.error("Failed to start voice mode:", error);
+      alert("Could not access the microphone.");
+    }
+  };
+
+  const stopVoiceMode = () => {
+    const voice = voiceRef.current;
+    if (!voice) return;
+    voiceRef.current = null;
+    clearInterval(voice.timer);
+    if (voice.recorder) {
+      voice.recorder.onstop = null;
+      if (voice.recorder.state !== 'inactive') voice.recorder.stop();
+    }
+    voice.audio?.pause();
+    voice.stream.getTracks().forEach(track => track.stop());
+    voice.context.close();
+    setVoiceState('off');
+  };
+
+  // Tapping the orb starts voice mode, ends the current turn early, or interrupts the reply
+  const handleVoiceOrb = () => {
+    if (voiceState === 'off') startVoiceMode();
+    else if (voiceState === 'listening' && voiceRef.current?.heardAt) stopRecording(true);
+    else if (voiceState === 'speaking') bargeIn();
+  };
+
+  useEffect(() => {
+    if (view !== 'voice') stopVoiceMode();
+  }, [view]);
+
+  // Upload each picked file right away; the message only carries their ids
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    if (!user || !token) {
+      setModals(prev => ({ ...prev, signIn: true }));
+      return;
+    }
+    setIsUploadingAttachment(true);
+    for (const file of files) {
+      try {
+        const res = await apiFetch('/api/attachments', {
+          method: 'POST',
+          headers: { 'Content-Type': file.type || 'application/octet-stream', 'X-File-Name': encodeURIComponent(file.name) },
+          body: file
+        });
+        const data = await res.json();
+        if (res.ok) {
+          setPendingAttachments(prev => [...prev, data]);
+        } else {
+          alert(`${file.name}: ${data.error || "Upload failed."}`);
+        }
+      } catch (error) {
+        console.error("Failed to upload attachment:", error);
+        alert(`${file.name}: Upload failed.`);
+      }
+    }
+    setIsUploadingAttachment(false);
   };
 
   return (
@@ -558,6 +2207,7 @@ export default function App() {
             placeholder="Search..." 
             value={searchQuery}
             onChange={e => setSearchQuery(e.target.value)}
+            onFocus={e => { e.target.blur(); setModals(prev => ({ ...prev, search: true })); }}
             className="bg-transparent border-none outline-none w-full"
           />
           <span className="ml-auto text-xs opacity-50">Ctrl+K</span>
@@ -576,7 +2226,7 @@ export default function App() {
             <ImageIcon size={20} />
             <span>Imagine</span>
           </div>
-          <div onClick={() => setView('projects')} className={`flex items-center gap-4 p-3 rounded-xl cursor-pointer text-[15px] transition-all ${view === 'projects' ? (theme === 'dark' ? 'bg-[#1f1f1f] text-white' : 'bg-[#e0e0e0] text-black') : (theme === 'dark' ? 'text-[#ddd] hover:bg-[#1f1f1f] hover:text-white' : 'text-[#333] hover:bg-[#e0e0e0] hover:text-black')}`}>
+          <div onClick={() => setView('projects')} className={`flex items-center gap-4 p-3 rounded-xl cursor-pointer text-[15px] transition-all ${view === 'projects' || view === 'project' ? (theme === 'dark' ? 'bg-[#1f1f1f] text-white' : 'bg-[#e0e0e0] text-black') : (theme === 'dark' ? 'text-[#ddd] hover:bg-[#1f1f1f] hover:text-white' : 'text-[#333] hover:bg-[#e0e0e0] hover:text-black')}`}>
             <Folder size={20} />
             <span>Projects</span>
           </div>
@@ -609,27 +2259,32 @@ export default function App() {
             <p className={`text-[26px] mb-14 ${theme === 'dark' ? 'text-[#bbb]' : 'text-[#555]'}`}>What's on your mind?</p>
             
             <div className="w-full max-w-3xl mx-auto mb-10">
+              {pendingAttachments.length > 0 && (
+                <div className="mb-3 text-left">
+                  <AttachmentChips attachments={pendingAttachments} session={mediaSession} theme={theme} onRemove={id => setPendingAttachments(prev => prev.filter(a => a.id !== id))} />
+                </div>
+              )}
               <div className={`flex items-center rounded-full p-1.5 h-16 border transition-all ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a] focus-within:border-[#555] focus-within:ring-4 focus-within:ring-white/10' : 'bg-[#f5f5f5] border-[#ddd] focus-within:border-[#999] focus-within:ring-4 focus-within:ring-black/10'}`}>
                 <div onClick={() => fileInputRef.current?.click()} className="pl-4 pr-2 text-[#666] cursor-pointer hover:text-white transition-colors">
                   <Plus size={20} />
                 </div>
-                <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept="image/*" />
+                <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" multiple accept="image/*,application/pdf,text/*,.md,.json,.csv,.yaml,.yml,.xml,.js,.jsx,.ts,.tsx,.py,.rb,.go,.rs,.java,.kt,.c,.h,.cpp,.hpp,.cs,.php,.sh,.sql,.toml,.ini,.log" />
                 <input 
                   type="text" 
                   value={inputText}
                   onChange={e => setInputText(e.target.value)}
                   onKeyDown={e => e.key === 'Enter' && handleSend()}
-                  placeholder={selectedFile ? "Image attached. Add a message..." : "What's on your mind?"}
+                  placeholder={isUploadingAttachment ? "Uploading..." : pendingAttachments.length > 0 ? "Files attached. Add a message..." : "What's on your mind? (/imagine to make an image)"}
                   className={`flex-1 bg-transparent border-none outline-none text-[17px] px-2 ${theme === 'dark' ? 'text-white placeholder-[#666]' : 'text-black placeholder-[#999]'}`}
                 />
                 <div className="flex items-center gap-2 pr-2">
-                  <button onClick={() => { setView('voice'); startListening(); }} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-[#333]' : 'hover:bg-[#ddd]'}`}>
+                  <button onClick={startVoiceMode} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-[#333]' : 'hover:bg-[#ddd]'}`}>
                     <Mic size={20} />
                   </button>
                   <button 
                     onClick={() => handleSend()}
-                    disabled={!inputText.trim() && !selectedFile}
-                    className={`p-2 rounded-full flex items-center justify-center transition-colors ${inputText.trim() || selectedFile ? (theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white') : (theme === 'dark' ? 'bg-[#333] text-[#666]' : 'bg-[#ddd] text-[#999]')}`}
+                    disabled={(!inputText.trim() && pendingAttachments.length === 0) || isUploadingAttachment}
+                    className={`p-2 rounded-full flex items-center justify-center transition-colors ${inputText.trim() || pendingAttachments.length > 0 ? (theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white') : (theme === 'dark' ? 'bg-[#333] text-[#666]' : 'bg-[#ddd] text-[#999]')}`}
                   >
                     <Send size={18} />
                   </button>
@@ -650,22 +2305,190 @@ export default function App() {
 
         {view === 'chat' && (
           <div className="flex flex-col h-full w-full max-w-4xl mx-auto relative">
+            {currentConversation && (
+              <div className={`flex items-center gap-2 px-8 pt-5 text-sm ${theme === 'dark' ? 'text-[#aaa]' : 'text-[#555]'}`}>
+                <select
+                  value={currentConversation.provider && currentConversation.model ? `${currentConversation.provider}:${currentConversation.model}` : ''}
+                  onChange={e => {
+                    const option = modelOptions.find(o => `${o.provider}:${o.model}` === e.target.value);
+                    updateConversationSettings({ provider: option?.provider ?? null, model: option?.model ?? null });
+                  }}
+                  className={`px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                >
+                  <option value="">Default model</option>
+                  {modelOptions.map(o => (
+                    <option key={`${o.provider}:${o.model}`} value={`${o.provider}:${o.model}`}>{o.label}</option>
+                  ))}
+                </select>
+                {projects.length > 0 && (
+                  <select
+                    value={currentConversation.projectId || ''}
+                    onChange={e => updateConversationSettings({ projectId: e.target.value || null })}
+                    className={`px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                  >
+                    <option value="">No project</option>
+                    {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                )}
+                {personas.length > 0 && (
+                  <select
+                    value=""
+                    onChange={e => handleApplyPersona(e.target.value)}
+                    className={`px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                  >
+                    <option value="">Apply persona...</option>
+                    {personas.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                )}
+                <button onClick={() => setShowChatSettings(!showChatSettings)} title="Chat settings" className={`p-1.5 rounded-lg ${theme === 'dark' ? 'hover:bg-[#222]' : 'hover:bg-[#e0e0e0]'}`}>
+                  <SlidersHorizontal size={16} />
+                </button>
+                <button onClick={() => setModals({...modals, share: true})} title="Share" className={`p-1.5 rounded-lg ${theme === 'dark' ? 'hover:bg-[#222]' : 'hover:bg-[#e0e0e0]'}`}>
+                  <Share2 size={16} />
+                </button>
+              </div>
+            )}
+            {currentConversation && showChatSettings && (
+              <div className={`mx-8 mt-3 p-4 rounded-2xl border space-y-3 text-sm ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-white border-[#ddd]'}`}>
+                <div className="flex gap-3">
+                  <label className="flex-1">
+                    <span className="block mb-1 opacity-70">Temperature (0-2)</span>
+                    <input
+                      type="number" min={0} max={2} step={0.1}
+                      value={chatSettingsDraft.temperature}
+                      onChange={e => setChatSettingsDraft({...chatSettingsDraft, temperature: e.target.value})}
+                      placeholder="Default"
+                      className={`w-full px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                    />
+                  </label>
+                  <label className="flex-1">
+                    <span className="block mb-1 opacity-70">Max tokens</span>
+                    <input
+                      type="number" min={1} step={1}
+                      value={chatSettingsDraft.maxTokens}
+                      onChange={e => setChatSettingsDraft({...chatSettingsDraft, maxTokens: e.target.value})}
+                      placeholder="Default"
+                      className={`w-full px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                    />
+                  </label>
+                </div>
+                <label className="block">
+                  <span className="block mb-1 opacity-70">System prompt</span>
+                  <textarea
+                    rows={3}
+                    value={chatSettingsDraft.systemPrompt}
+                    onChange={e => setChatSettingsDraft({...chatSettingsDraft, systemPrompt: e.target.value})}
+                    placeholder="You are Grok by xAI..."
+                    className={`w-full px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                  />
+                </label>
+                <div className="flex justify-end">
+                  <button onClick={handleSaveChatSettings} className={`px-4 py-1.5 rounded-lg font-medium ${theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white'}`}>Save</button>
+                </div>
+              </div>
+            )}
             <div className="flex-1 overflow-y-auto p-8 pb-32 space-y-8">
               {messages.map((msg, i) => (
-                <div key={i} className={`flex w-full ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                  <div className={`max-w-[80%] p-4 rounded-3xl text-[16px] leading-relaxed ${
-                    msg.role === 'user' 
-                      ? (theme === 'dark' ? 'bg-[#222] text-white' : 'bg-[#e0e0e0] text-black')
-                      : (theme === 'dark' ? 'bg-[#111] text-[#ddd]' : 'bg-[#f0f0f0] text-black')
-                  }`}>
-                    {msg.role === 'ai' ? (
-                      <div className="markdown-body">
-                        <Markdown remarkPlugins={[remarkGfm]}>{msg.text}</Markdown>
+                <div key={i} id={msg.id ? `message-${msg.id}` : undefined} className={`flex flex-col w-full rounded-3xl transition-all ${msg.role === 'user' ? 'items-end' : 'items-start'} ${scrollTargetId && msg.id === scrollTargetId ? 'ring-2 ring-[#00ff9d]/60' : ''}`}>
+                  {editingMessage?.index === i ? (
+                    <div className={`w-[80%] p-4 rounded-3xl ${theme === 'dark' ? 'bg-[#222] text-white' : 'bg-[#e0e0e0] text-black'}`}>
+                      <textarea
+                        rows={3}
+                        value={editingMessage.text}
+                        onChange={e => setEditingMessage({ index: i, text: e.target.value })}
+                        className="w-full bg-transparent border-none outline-none resize-none text-[16px]"
+                      />
+                      <div className="flex justify-end gap-2 mt-2">
+                        <button onClick={() => setEditingMessage(null)} className={`px-3 py-1.5 rounded-lg text-sm border ${theme === 'dark' ? 'border-[#444] hover:bg-[#333]' : 'border-[#ccc] hover:bg-[#d0d0d0]'}`}>Cancel</button>
+                        <button onClick={handleEditMessage} className={`px-3 py-1.5 rounded-lg text-sm font-medium ${theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white'}`}>Send</button>
                       </div>
-                    ) : (
-                      msg.text
-                    )}
-                  </div>
+                    </div>
+                  ) : (
+                    <div className={`max-w-[80%] p-4 rounded-3xl text-[16px] leading-relaxed ${
+                      msg.role === 'user' 
+                        ? (theme === 'dark' ? 'bg-[#222] text-white' : 'bg-[#e0e0e0] text-black')
+                        : (theme === 'dark' ? 'bg-[#111] text-[#ddd]' : 'bg-[#f0f0f0] text-black')
+                    }`}>
+                      {msg.role === 'user' && msg.attachments && msg.attachments.length > 0 && (
+                        <div className="mb-2">
+                          <AttachmentChips attachments={msg.attachments} session={mediaSession} theme={theme} />
+                        </div>
+                      )}
+                      {msg.toolCalls?.map((call, j) => <ToolCallCard key={j} call={call} theme={theme} fileUrl={fileUrl} />)}
+                      {msg.role === 'ai' ? (
+                        <div className="markdown-body">
+                          <Markdown remarkPlugins={[remarkGfm]} components={markdownComponents(msg.id)}>{msg.text}</Markdown>
+                        </div>
+                      ) : (
+                        msg.text
+                      )}
+                      {msg.role === 'ai' && msg.attachments?.map(attachment => attachment.mimeType.startsWith('image/') ? (
+                        <a key={attachment.id} href={fileUrl(attachment.id)} target="_blank" rel="noreferrer" className="block mt-3">
+                          <img src={fileUrl(attachment.id)} alt={attachment.name} className="max-w-full max-h-[60vh] rounded-xl" />
+                        </a>
+                      ) : (
+                        <div key={attachment.id} className="mt-3">
+                          <AttachmentChips attachments={[attachment]} session={mediaSession} theme={theme} />
+                        </div>
+                      ))}
+                      {msg.codeRuns?.map((run, j) => <CodeRunOutput key={j} run={run} theme={theme} fileUrl={fileUrl} />)}
+                      {msg.interrupted && (
+                        <div className="mt-2 text-xs opacity-50 italic">Response stopped</div>
+                      )}
+                      {msg.sources && msg.sources.length > 0 && (
+                        <div className={`mt-3 pt-3 border-t flex flex-wrap gap-2 text-xs ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                          <span className="opacity-50">Sources:</span>
+                          {msg.sources.map((source, j) => (
+                            <button
+                              key={j}
+                              onClick={() => handleOpenSearchHit(source)}
+                              title={source.snippet}
+                              className={`px-2 py-0.5 rounded-full border truncate max-w-[200px] ${theme === 'dark' ? 'border-[#333] hover:bg-[#222]' : 'border-[#ccc] hover:bg-[#e0e0e0]'}`}
+                            >
+                              [{j + 1}] {source.kind === 'document' ? '📄 ' : ''}{source.title}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {msg.id && !isStreaming && editingMessage?.index !== i && (
+                    <div className={`flex items-center gap-2 mt-1 px-2 text-xs ${theme === 'dark' ? 'text-[#777]' : 'text-[#888]'}`}>
+                      {msg.siblingIds && msg.siblingIds.length > 1 && (
+                        <div className="flex items-center gap-1">
+                          <button
+                            disabled={!msg.siblingIndex}
+                            onClick={() => handleSelectBranch(msg.siblingIds![msg.siblingIndex! - 1])}
+                            className="p-1 rounded hover:opacity-70 disabled:opacity-30"
+                          >
+                            <ChevronLeft size={14} />
+                          </button>
+                          <span>{msg.siblingIndex! + 1}/{msg.siblingIds.length}</span>
+                          <button
+                            disabled={msg.siblingIndex === msg.siblingIds.length - 1}
+                            onClick={() => handleSelectBranch(msg.siblingIds![msg.siblingIndex! + 1])}
+                            className="p-1 rounded hover:opacity-70 disabled:opacity-30"
+                          >
+                            <ChevronRight size={14} />
+                          </button>
+                        </div>
+                      )}
+                      {msg.role === 'user' ? (
+                        <button onClick={() => setEditingMessage({ index: i, text: msg.text })} title="Edit" className="p-1 rounded hover:opacity-70">
+                          <Pencil size={14} />
+                        </button>
+                      ) : (
+                        <>
+                          <button onClick={() => handleRegenerate(i)} title="Regenerate" className="p-1 rounded hover:opacity-70">
+                            <RefreshCw size={14} />
+                          </button>
+                          <button onClick={() => handleExtractTasks(msg.id!)} disabled={extractingMessageId === msg.id} title="Extract tasks" className="p-1 rounded hover:opacity-70 disabled:opacity-30">
+                            <ListChecks size={14} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
               {isThinking && (
@@ -681,30 +2504,45 @@ export default function App() {
             </div>
             
             <div className={`absolute bottom-0 left-0 right-0 p-6 pt-10 bg-gradient-to-t ${theme === 'dark' ? 'from-black via-black/90 to-transparent' : 'from-[#f0f0f0] via-[#f0f0f0]/90 to-transparent'}`}>
+              {pendingAttachments.length > 0 && (
+                <div className="w-full max-w-3xl mx-auto mb-3">
+                  <AttachmentChips attachments={pendingAttachments} session={mediaSession} theme={theme} onRemove={id => setPendingAttachments(prev => prev.filter(a => a.id !== id))} />
+                </div>
+              )}
               <div className={`flex items-center rounded-full p-1.5 h-16 border transition-all w-full max-w-3xl mx-auto ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a] focus-within:border-[#555] focus-within:ring-4 focus-within:ring-white/10' : 'bg-[#f5f5f5] border-[#ddd] focus-within:border-[#999] focus-within:ring-4 focus-within:ring-black/10'}`}>
                 <div onClick={() => fileInputRef.current?.click()} className="pl-4 pr-2 text-[#666] cursor-pointer hover:text-white transition-colors">
                   <Plus size={20} />
                 </div>
-                <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept="image/*" />
+                <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" multiple accept="image/*,application/pdf,text/*,.md,.json,.csv,.yaml,.yml,.xml,.js,.jsx,.ts,.tsx,.py,.rb,.go,.rs,.java,.kt,.c,.h,.cpp,.hpp,.cs,.php,.sh,.sql,.toml,.ini,.log" />
                 <input 
                   type="text" 
                   value={inputText}
                   onChange={e => setInputText(e.target.value)}
                   onKeyDown={e => e.key === 'Enter' && handleSend()}
-                  placeholder={selectedFile ? "Image attached. Add a message..." : "What's on your mind?"}
+                  placeholder={isUploadingAttachment ? "Uploading..." : pendingAttachments.length > 0 ? "Files attached. Add a message..." : "What's on your mind? (/imagine to make an image)"}
                   className={`flex-1 bg-transparent border-none outline-none text-[17px] px-2 ${theme === 'dark' ? 'text-white placeholder-[#666]' : 'text-black placeholder-[#999]'}`}
                 />
                 <div className="flex items-center gap-2 pr-2">
-                  <button onClick={() => { setView('voice'); startListening(); }} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-[#333]' : 'hover:bg-[#ddd]'}`}>
+                  <button onClick={startVoiceMode} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-[#333]' : 'hover:bg-[#ddd]'}`}>
                     <Mic size={20} />
                   </button>
-                  <button 
-                    onClick={() => handleSend()}
-                    disabled={(!inputText.trim() && !selectedFile) || isThinking}
-                    className={`p-2 rounded-full flex items-center justify-center transition-colors ${(inputText.trim() || selectedFile) && !isThinking ? (theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white') : (theme === 'dark' ? 'bg-[#333] text-[#666]' : 'bg-[#ddd] text-[#999]')}`}
-                  >
-                    <Send size={18} />
-                  </button>
+                  {isStreaming ? (
+                    <button 
+                      onClick={handleStop}
+                      title="Stop generating"
+                      className={`p-2 rounded-full flex items-center justify-center transition-colors ${theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white'}`}
+                    >
+                      <Square size={18} fill="currentColor" />
+                    </button>
+                  ) : (
+                    <button 
+                      onClick={() => handleSend()}
+                      disabled={(!inputText.trim() && pendingAttachments.length === 0) || isUploadingAttachment}
+                      className={`p-2 rounded-full flex items-center justify-center transition-colors ${inputText.trim() || pendingAttachments.length > 0 ? (theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white') : (theme === 'dark' ? 'bg-[#333] text-[#666]' : 'bg-[#ddd] text-[#999]')}`}
+                    >
+                      <Send size={18} />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -713,7 +2551,59 @@ export default function App() {
 
         {view === 'history' && (
           <div className="w-full max-w-4xl mx-auto p-8 h-full overflow-y-auto">
-            <h2 className="text-3xl font-bold mb-8">History</h2>
+            <div className="flex justify-between items-center mb-8">
+              <h2 className="text-3xl font-bold">History</h2>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className={`px-4 py-2 rounded-xl font-medium flex items-center gap-2 ${theme === 'dark' ? 'bg-white text-black hover:bg-gray-200' : 'bg-black text-white hover:bg-gray-800'}`}
+              >
+                <Upload size={18} />
+                Import
+              </button>
+              <input type="file" ref={importInputRef} onChange={handleImportSelect} className="hidden" accept=".json,.zip" />
+            </div>
+            {importReport && (
+              <div className={`mb-8 p-5 rounded-2xl border ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a]' : 'bg-white border-[#ddd]'}`}>
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <div className="font-semibold">
+                      {importReport.preview ? 'Import preview' : 'Import complete'} <span className="opacity-50 font-normal">({importReport.format})</span>
+                    </div>
+                    <div className="text-sm opacity-60">
+                      {importReport.preview
+                        ? `${importReport.totals.conversations} conversations, ${importReport.totals.messages} messages, ${importReport.totals.duplicates} already imported`
+                        : `Imported ${importReport.imported} conversations, skipped ${importReport.skipped} duplicates`}
+                    </div>
+                  </div>
+                  <button onClick={() => { setImportReport(null); setImportFile(null); }} className="hover:opacity-70"><X size={20} /></button>
+                </div>
+                {importReport.preview && (
+                  <>
+                    <div className="max-h-60 overflow-y-auto space-y-1 mb-4 text-sm">
+                      {importReport.conversations.map((c: any, i: number) => (
+                        <div key={i} className={`flex justify-between gap-4 ${c.duplicate ? 'opacity-40' : ''}`}>
+                          <span className="truncate">{c.title}</span>
+                          <span className="shrink-0 opacity-60">
+                            {c.duplicate ? 'Already imported' : `${c.messageCount} messages · ${new Date(c.createdAt).toLocaleDateString()}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => { setImportReport(null); setImportFile(null); }} className={`px-4 py-2 rounded-lg border ${theme === 'dark' ? 'border-[#444] hover:bg-[#222]' : 'border-[#ccc] hover:bg-[#e0e0e0]'}`}>Cancel</button>
+                      <button
+                        onClick={() => importFile && runImport(importFile, false)}
+                        disabled={isImporting || importReport.totals.conversations === importReport.totals.duplicates}
+                        className={`px-4 py-2 rounded-lg font-medium disabled:opacity-50 ${theme === 'dark' ? 'bg-[#00ff9d] text-black' : 'bg-black text-white'}`}
+                      >
+                        Import {importReport.totals.conversations - importReport.totals.duplicates} conversations
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
             {conversations.filter(c => c.title.toLowerCase().includes(searchQuery.toLowerCase())).length === 0 ? (
               <div className="text-center opacity-50 mt-20">No past conversations found.</div>
             ) : (
@@ -734,29 +2624,67 @@ export default function App() {
         )}
 
         {view === 'imagine' && (
-          <div className="w-full max-w-4xl mx-auto p-8 h-full flex flex-col items-center justify-center relative">
+          <div className="w-full max-w-4xl mx-auto p-8 pt-20 h-full overflow-y-auto flex flex-col items-center relative">
             <h2 className="text-4xl font-bold mb-4">Imagine</h2>
             <p className="text-lg opacity-70 mb-12 text-center max-w-2xl">Describe an image you want to generate, and Grok will bring it to life.</p>
             
-            {generatedImage ? (
-              <div className="mb-12 relative group rounded-2xl overflow-hidden shadow-2xl border border-white/10">
-                <img src={generatedImage} alt="Generated" className="max-w-full max-h-[50vh] object-contain" />
-                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-4">
-                  <button onClick={() => {
-                    const a = document.createElement('a');
-                    a.href = generatedImage;
-                    a.download = 'grok-imagine.png';
-                    a.click();
-                  }} className="px-6 py-3 bg-white text-black rounded-xl font-medium hover:bg-gray-200">Download</button>
+            {editSource && (
+              <div className="mb-8 flex flex-col items-center gap-3">
+                <MaskCanvas key={editSource.attachmentId} src={fileUrl(editSource.attachmentId)} canvasRef={maskCanvasRef} brushSize={brushSize} onPaint={() => setHasMask(true)} />
+                <div className="flex flex-wrap items-center justify-center gap-4 text-sm">
+                  <span className="opacity-70">Editing {editSource.name}{hasMask ? ' · masked area only' : ' · paint to limit the edit'}</span>
+                  <label className="flex items-center gap-2 opacity-70">
+                    Brush
+                    <input type="range" min={5} max={150} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} />
+                  </label>
+                  <button onClick={clearMask} disabled={!hasMask} className="opacity-70 hover:opacity-100 disabled:opacity-30">Clear mask</button>
+                  <button onClick={() => setEditSource(null)} className="opacity-70 hover:opacity-100 hover:text-red-500">Stop editing</button>
                 </div>
               </div>
-            ) : isGeneratingImage ? (
+            )}
+
+            {isGeneratingImage ? (
               <div className="mb-12 flex flex-col items-center">
                 <div className="w-16 h-16 border-4 border-[#00ff9d] border-t-transparent rounded-full animate-spin mb-4"></div>
                 <div className="text-lg opacity-80 animate-pulse">Generating your masterpiece...</div>
               </div>
+            ) : imageResults.length > 0 ? (
+              <div className={`mb-12 grid gap-4 w-full ${imageResults.length > 1 ? 'grid-cols-2' : 'grid-cols-1 max-w-xl'}`}>
+                {imageResults.map(image => (
+                  <div key={image.id} className="relative group rounded-2xl overflow-hidden shadow-2xl border border-white/10">
+                    <img src={fileUrl(image.attachmentId)} alt={image.prompt} className="w-full max-h-[50vh] object-contain" />
+                    <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex flex-wrap items-center justify-center gap-3 p-4">
+                      <button onClick={() => selectEditSource({ attachmentId: image.attachmentId, name: image.name })} className="px-4 py-2 bg-white text-black rounded-xl font-medium hover:bg-gray-200">Edit</button>
+                      <button onClick={() => handleImageVariations(image)} className="px-4 py-2 bg-white text-black rounded-xl font-medium hover:bg-gray-200">Variations</button>
+                      <a href={fileUrl(image.attachmentId, true)} className="px-4 py-2 bg-white text-black rounded-xl font-medium hover:bg-gray-200">Download</a>
+                    </div>
+                  </div>
+                ))}
+              </div>
             ) : null}
 
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-4 text-sm">
+              <select value={imageOptions.style} onChange={e => setImageOptions({...imageOptions, style: e.target.value})} className={`px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}>
+                {IMAGE_STYLES.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+              </select>
+              <select
+                value={imageOptions.aspectRatio}
+                disabled={Boolean(editSource)}
+                onChange={e => setImageOptions({...imageOptions, aspectRatio: e.target.value})}
+                title={editSource ? "Edits keep the source's shape" : "Aspect ratio"}
+                className={`px-3 py-2 rounded-lg border outline-none disabled:opacity-40 ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}
+              >
+                {IMAGE_ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+              </select>
+              <select value={imageOptions.count} onChange={e => setImageOptions({...imageOptions, count: Number(e.target.value)})} className={`px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}>
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n} {n === 1 ? 'image' : 'images'}</option>)}
+              </select>
+              <button onClick={() => imageSourceInputRef.current?.click()} className={`px-3 py-2 rounded-lg border flex items-center gap-2 ${theme === 'dark' ? 'border-[#333] hover:bg-[#222]' : 'border-[#ccc] hover:bg-[#e0e0e0]'}`}>
+                <Upload size={14} /> Edit an image
+              </button>
+              <input type="file" ref={imageSourceInputRef} onChange={handleUploadImageSource} className="hidden" accept="image/*" />
+            </div>
+
             <div className={`flex items-center rounded-full p-1.5 h-16 border transition-all w-full max-w-3xl ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a] focus-within:border-[#555] focus-within:ring-4 focus-within:ring-white/10' : 'bg-[#f5f5f5] border-[#ddd] focus-within:border-[#999] focus-within:ring-4 focus-within:ring-black/10'}`}>
               <div className="pl-4 pr-2 text-[#666]">
                 <ImageIcon size={20} />
@@ -766,42 +2694,89 @@ export default function App() {
                 value={inputText}
                 onChange={e => setInputText(e.target.value)}
                 onKeyDown={e => e.key === 'Enter' && handleGenerateImage()}
-                placeholder="A futuristic city with flying cars..."
+                placeholder={editSource ? "Describe the change, e.g. make the sky stormy..." : "A futuristic city with flying cars..."}
                 className={`flex-1 bg-transparent border-none outline-none text-[17px] px-2 ${theme === 'dark' ? 'text-white placeholder-[#666]' : 'text-black placeholder-[#999]'}`}
               />
               <div className="flex items-center pr-2">
                 <button 
-                  onClick={handleGenerateImage}
+                  onClick={() => handleGenerateImage()}
                   disabled={!inputText.trim() || isGeneratingImage}
                   className={`px-6 py-2.5 rounded-full font-medium transition-colors ${inputText.trim() && !isGeneratingImage ? (theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white') : (theme === 'dark' ? 'bg-[#333] text-[#666]' : 'bg-[#ddd] text-[#999]')}`}
                 >
-                  Generate
+                  {editSource ? 'Edit' : 'Generate'}
                 </button>
               </div>
             </div>
+
+            {images.length > 0 && (
+              <div className="w-full mt-14">
+                <h3 className="text-lg font-bold mb-4">Your images</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {images.map(image => (
+                    <div key={image.id} className={`relative group rounded-xl overflow-hidden border aspect-square ${theme === 'dark' ? 'border-[#2a2a2a] bg-[#161616]' : 'border-[#ddd] bg-white'}`}>
+                      <img src={fileUrl(image.attachmentId)} alt={image.prompt} className="w-full h-full object-cover" />
+                      <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-between p-3 text-white text-xs">
+                        <div>
+                          <p className="line-clamp-4">{image.prompt}</p>
+                          <p className="mt-1 opacity-60">{image.model}{image.sourceAttachmentId ? (image.masked ? ' · inpainted' : ' · edited') : ''} · {new Date(image.createdAt).toLocaleDateString()}</p>
+                        </div>
+                        <div className="flex flex-wrap gap-x-3 gap-y-1 font-medium">
+                          <button onClick={() => setInputText(image.prompt)} className="hover:text-[#00ff9d]">Reuse prompt</button>
+                          <button onClick={() => selectEditSource({ attachmentId: image.attachmentId, name: image.name })} className="hover:text-[#00ff9d]">Edit</button>
+                          <button onClick={() => handleImageVariations(image)} className="hover:text-[#00ff9d]">Variations</button>
+                          <button onClick={() => openImageLineage(image.id)} className="hover:text-[#00ff9d]">Lineage</button>
+                          <button onClick={() => handleUseFileInChat({ id: image.attachmentId, name: image.name, mimeType: image.mimeType, size: image.size })} className="hover:text-[#00ff9d]">Send to chat</button>
+                          <a href={fileUrl(image.attachmentId, true)} className="hover:text-[#00ff9d]">Download</a>
+                          <button onClick={() => handleDeleteImage(image)} className="hover:text-red-400">Delete</button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {imagePage.pages > 1 && (
+                  <div className="flex items-center justify-center gap-4 mt-6 text-sm">
+                    <button disabled={imagePage.page <= 1} onClick={() => fetchImages(imagePage.page - 1)} className="p-1 rounded hover:opacity-70 disabled:opacity-30"><ChevronLeft size={18} /></button>
+                    <span className="opacity-70">{imagePage.page} / {imagePage.pages}</span>
+                    <button disabled={imagePage.page >= imagePage.pages} onClick={() => fetchImages(imagePage.page + 1)} className="p-1 rounded hover:opacity-70 disabled:opacity-30"><ChevronRight size={18} /></button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
 
         {view === 'voice' && (
           <div className="w-full max-w-4xl mx-auto p-8 h-full flex flex-col items-center justify-center">
             <div className="relative w-48 h-48 mb-12 flex items-center justify-center">
-              {isListening && (
+              {(voiceState === 'listening' || voiceState === 'speaking') && (
                 <>
                   <div className="absolute inset-0 bg-[#00ff9d]/20 rounded-full animate-ping" style={{ animationDuration: '3s' }}></div>
                   <div className="absolute inset-4 bg-[#00ff9d]/40 rounded-full animate-ping" style={{ animationDuration: '2s' }}></div>
                 </>
               )}
-              <div onClick={isListening ? () => {} : startListening} className={`relative w-24 h-24 rounded-full flex items-center justify-center shadow-[0_0_40px_rgba(0,255,157,0.5)] cursor-pointer hover:scale-105 transition-transform ${isListening ? 'bg-[#ff4444]' : 'bg-[#00ff9d]'}`}>
-                <Mic size={40} className="text-black" />
+              <div onClick={handleVoiceOrb} className={`relative w-24 h-24 rounded-full flex items-center justify-center shadow-[0_0_40px_rgba(0,255,157,0.5)] cursor-pointer hover:scale-105 transition-transform ${voiceState === 'listening' ? 'bg-[#ff4444]' : voiceState === 'transcribing' || voiceState === 'thinking' ? 'bg-[#00ff9d] animate-pulse' : 'bg-[#00ff9d]'}`}>
+                {voiceState === 'speaking' ? <Square size={32} className="text-black" fill="currentColor" /> : <Mic size={40} className="text-black" />}
               </div>
             </div>
-            <h2 className="text-3xl font-bold mb-4">{isListening ? 'Listening...' : 'Tap to speak'}</h2>
+            <h2 className="text-3xl font-bold mb-4">
+              {{ off: 'Tap to talk', listening: 'Listening...', transcribing: 'Transcribing...', thinking: 'Thinking...', speaking: 'Speaking' }[voiceState]}
+            </h2>
             <p className="text-lg opacity-70 text-center max-w-md">
-              {inputText || "Speak your mind. Grok is listening and ready to respond."}
+              {voiceTranscript ? `“${voiceTranscript}”` : "Speak your mind. Grok listens, answers out loud, and you can talk over it any time."}
             </p>
-            <button onClick={() => { setView('chat'); setIsListening(false); }} className={`mt-12 px-6 py-3 rounded-xl border transition-colors ${theme === 'dark' ? 'border-[#444] hover:bg-[#222]' : 'border-[#ccc] hover:bg-[#e0e0e0]'}`}>
-              Cancel
-            </button>
+            {voiceState !== 'off' && messages.length > 0 && messages[messages.length - 1].role === 'ai' && (
+              <p className="mt-6 text-base opacity-90 text-center max-w-xl line-clamp-6">{messages[messages.length - 1].text}</p>
+            )}
+            <div className="flex gap-3 mt-12">
+              {voiceState !== 'off' && (
+                <button onClick={stopVoiceMode} className={`px-6 py-3 rounded-xl border transition-colors ${theme === 'dark' ? 'border-[#444] hover:bg-[#222]' : 'border-[#ccc] hover:bg-[#e0e0e0]'}`}>
+                  Pause
+                </button>
+              )}
+              <button onClick={() => setView(currentConversationId ? 'chat' : 'home')} className={`px-6 py-3 rounded-xl border transition-colors ${theme === 'dark' ? 'border-[#444] hover:bg-[#222]' : 'border-[#ccc] hover:bg-[#e0e0e0]'}`}>
+                {currentConversationId ? 'Open transcript' : 'Cancel'}
+              </button>
+            </div>
           </div>
         )}
 
@@ -835,8 +2810,10 @@ export default function App() {
                       <h3 className="font-bold text-lg">{project.name}</h3>
                     </div>
                     <p className={`text-sm mb-4 line-clamp-2 ${theme === 'dark' ? 'text-[#aaa]' : 'text-[#666]'}`}>{project.description}</p>
-                    <div className="flex justify-end">
-                      <button className={`text-sm font-medium ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}>View Details</button>
+                    <div className="flex justify-end gap-4">
+                      <button onClick={() => openProjectDocuments(project.id)} className="text-sm font-medium opacity-70 hover:opacity-100">Documents</button>
+                      <button onClick={() => handleNewProjectChat(project.id)} className="text-sm font-medium opacity-70 hover:opacity-100">New Chat</button>
+                      <button onClick={() => openProject(project.id)} className={`text-sm font-medium ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}>View Details</button>
                     </div>
                   </div>
                 ))}
@@ -845,22 +2822,435 @@ export default function App() {
           </div>
         )}
 
-        {view === 'grokpedia' && (
-          <div className="w-full max-w-4xl mx-auto p-8 h-full flex flex-col items-center justify-center">
-            <Book size={64} className="mb-6 opacity-50" />
-            <h2 className="text-3xl font-bold mb-4">Grokpedia</h2>
-            <p className="text-lg opacity-70 text-center max-w-md mb-8">The ultimate source of knowledge, curated by Grok.</p>
-            <div className={`flex items-center rounded-full p-1.5 h-16 border transition-all w-full max-w-2xl ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a] focus-within:border-[#555] focus-within:ring-4 focus-within:ring-white/10' : 'bg-[#f5f5f5] border-[#ddd] focus-within:border-[#999] focus-within:ring-4 focus-within:ring-black/10'}`}>
-              <div className="pl-4 pr-2 text-[#666]">
-                <Search size={20} />
+        {view === 'project' && projectDetail && (
+          <div className="w-full max-w-4xl mx-auto p-8 h-full overflow-y-auto space-y-8">
+            <div className="flex items-center gap-3">
+              <button onClick={() => setView('projects')} className={`p-2 rounded-lg ${theme === 'dark' ? 'hover:bg-[#222]' : 'hover:bg-[#e0e0e0]'}`}><ChevronLeft size={20} /></button>
+              <Folder size={24} className="text-[#00ff9d]" />
+              <input
+                value={projectDraft.name}
+                onChange={e => setProjectDraft({...projectDraft, name: e.target.value})}
+                className="flex-1 text-3xl font-bold bg-transparent outline-none"
+              />
+              <button onClick={handleDeleteProject} className="px-4 py-2 rounded-xl border border-red-500/50 text-red-500 hover:bg-red-500/10 text-sm font-medium">Delete</button>
+              <button onClick={handleSaveProject} className={`px-4 py-2 rounded-xl font-medium text-sm ${theme === 'dark' ? 'bg-white text-black hover:bg-gray-200' : 'bg-black text-white hover:bg-gray-800'}`}>Save</button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1 opacity-70">Description</label>
+              <textarea
+                rows={2}
+                value={projectDraft.description}
+                onChange={e => setProjectDraft({...projectDraft, description: e.target.value})}
+                className={`w-full px-4 py-2 rounded-xl border outline-none transition-all ${theme === 'dark' ? 'bg-[#161616] border-[#333] focus:border-[#00ff9d]' : 'bg-white border-[#ddd] focus:border-black'}`}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1 opacity-70">Content / Code</label>
+              {settings.sidebarEditor ? (
+                <CodeEditor value={projectDraft.content} onChange={content => setProjectDraft({...projectDraft, content})} theme={theme} />
+              ) : (
+                <textarea
+                  rows={12}
+                  value={projectDraft.content}
+                  onChange={e => setProjectDraft({...projectDraft, content: e.target.value})}
+                  className={`w-full px-4 py-2 rounded-xl border outline-none transition-all font-mono text-sm ${theme === 'dark' ? 'bg-[#161616] border-[#333] focus:border-[#00ff9d]' : 'bg-white border-[#ddd] focus:border-black'}`}
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="font-semibold">Conversations</h3>
+                  <button onClick={() => handleNewProjectChat(projectDetail.id)} className={`text-sm font-medium ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}>New Chat</button>
+                </div>
+                {projectDetail.conversations.length === 0 ? (
+                  <p className="text-sm opacity-50">No conversations in this project yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {projectDetail.conversations.map(conv => (
+                      <div
+                        key={conv.id}
+                        onClick={() => { setCurrentConversationId(conv.id); setView('chat'); }}
+                        className={`p-3 rounded-xl border cursor-pointer transition-all ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a] hover:border-[#555]' : 'bg-white border-[#ddd] hover:border-[#999]'}`}
+                      >
+                        <div className="truncate">{conv.title}</div>
+                        <div className="text-xs opacity-50">{new Date(conv.updated_at).toLocaleDateString()}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
-              <input 
-                type="text" 
-                placeholder="Search Grokpedia..."
-                onKeyDown={e => e.key === 'Enter' && handleSend((e.target as HTMLInputElement).value)}
-                className={`flex-1 bg-transparent border-none outline-none text-[17px] px-2 ${theme === 'dark' ? 'text-white placeholder-[#666]' : 'text-black placeholder-[#999]'}`}
+              <div>
+                <div className="flex justify-between items-center mb-3">
+                  <h3 className="font-semibold">Tasks</h3>
+                  <button onClick={() => openProjectDocuments(projectDetail.id)} className="text-sm font-medium opacity-70 hover:opacity-100">Documents</button>
+                </div>
+                {projectDetail.tasks.length === 0 ? (
+                  <p className="text-sm opacity-50">No tasks linked to this project.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {projectDetail.tasks.map(task => (
+                      <div key={task.id} className={`p-3 rounded-xl border ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a]' : 'bg-white border-[#ddd]'} ${task.completed ? 'line-through opacity-50' : ''}`}>
+                        {task.title}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-3">Version History</h3>
+              <div className="flex gap-4">
+                <div className="w-48 shrink-0 space-y-1 max-h-[320px] overflow-y-auto">
+                  {projectVersions.map(v => (
+                    <button
+                      key={v.version}
+                      onClick={() => handleShowDiff(v.version)}
+                      className={`w-full text-left px-3 py-2 rounded-lg text-sm ${projectDiff?.version === v.version ? (theme === 'dark' ? 'bg-[#222]' : 'bg-[#e0e0e0]') : (theme === 'dark' ? 'hover:bg-[#1a1a1a]' : 'hover:bg-[#eee]')}`}
+                    >
+                      <div className="font-medium">Version {v.version}</div>
+                      <div className="text-xs opacity-50">{new Date(v.createdAt).toLocaleString()}</div>
+                    </button>
+                  ))}
+                </div>
+                <div className={`flex-1 min-w-0 rounded-xl border overflow-auto max-h-[320px] font-mono text-xs ${theme === 'dark' ? 'bg-[#0d0d0d] border-[#333]' : 'bg-white border-[#ddd]'}`}>
+                  {projectDiff ? (
+                    <>
+                      <div className={`flex justify-between items-center px-3 py-2 border-b font-sans text-sm ${theme === 'dark' ? 'border-[#333]' : 'border-[#ddd]'}`}>
+                        <span className="opacity-70">{projectDiff.against ? `Version ${projectDiff.against} → ${projectDiff.version}` : `Version ${projectDiff.version}`}</span>
+                        <button
+                          onClick={() => setProjectDraft({...projectDraft, content: projectVersions.find(v => v.version === projectDiff.version)?.content || ''})}
+                          className={`text-sm font-medium ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}
+                        >
+                          Restore
+                        </button>
+                      </div>
+                      {projectDiff.lines.map((line, i) => (
+                        <div key={i} className={`px-3 whitespace-pre ${line.type === 'added' ? 'bg-green-500/15 text-green-500' : line.type === 'removed' ? 'bg-red-500/15 text-red-500' : 'opacity-70'}`}>
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                        </div>
+                      ))}
+                    </>
+                  ) : (
+                    <p className="p-4 font-sans text-sm opacity-50">Select a version to see what changed.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {view === 'files' && (
+          <div className="w-full max-w-4xl mx-auto p-8 h-full overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-3xl font-bold">Files</h2>
+              {fileUsage.quota > 0 && (
+                <div className="w-56 text-xs">
+                  <div className="flex justify-between mb-1 opacity-70">
+                    <span>{formatBytes(fileUsage.used)} used</span>
+                    <span>{formatBytes(fileUsage.quota)}</span>
+                  </div>
+                  <div className={`h-1.5 rounded-full overflow-hidden ${theme === 'dark' ? 'bg-[#222]' : 'bg-[#ddd]'}`}>
+                    <div
+                      className={`h-full ${fileUsage.used / fileUsage.quota > 0.9 ? 'bg-red-500' : 'bg-[#00ff9d]'}`}
+                      style={{ width: `${Math.min(100, (fileUsage.used / fileUsage.quota) * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-6 text-sm">
+              <input
+                value={fileFilters.q}
+                onChange={e => setFileFilters({...fileFilters, q: e.target.value})}
+                placeholder="Search files..."
+                className={`flex-1 min-w-[180px] px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}
               />
+              <select value={fileFilters.type} onChange={e => setFileFilters({...fileFilters, type: e.target.value})} className={`px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}>
+                <option value="">All types</option>
+                <option value="image">Images</option>
+                <option value="pdf">PDFs</option>
+                <option value="text">Text & code</option>
+                <option value="audio">Audio</option>
+              </select>
+              <select value={fileFilters.source} onChange={e => setFileFilters({...fileFilters, source: e.target.value})} className={`px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}>
+                <option value="">All sources</option>
+                <option value="upload">Uploads</option>
+                <option value="generated">Generated images</option>
+                <option value="speech">Spoken replies</option>
+              </select>
+              <select value={fileFilters.conversationId} onChange={e => setFileFilters({...fileFilters, conversationId: e.target.value, projectId: ''})} className={`max-w-[200px] px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}>
+                <option value="">All conversations</option>
+                {conversations.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+              </select>
+              <select value={fileFilters.projectId} onChange={e => setFileFilters({...fileFilters, projectId: e.target.value, conversationId: ''})} className={`max-w-[200px] px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}>
+                <option value="">All projects</option>
+                {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+
+            {files.length === 0 ? (
+              <div className="flex flex-col items-center justify-center mt-20 opacity-50">
+                <FileText size={64} className="mb-6" />
+                <p className="text-lg text-center max-w-md">Files you attach to chats and images you generate will appear here.</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {files.map(file => (
+                  <div key={file.id} className={`flex items-center gap-4 p-3 rounded-xl border ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a]' : 'bg-white border-[#ddd]'}`}>
+                    <button onClick={() => handlePreviewFile(file)} className={`w-14 h-14 shrink-0 rounded-lg overflow-hidden flex items-center justify-center ${theme === 'dark' ? 'bg-[#222]' : 'bg-[#eee]'}`}>
+                      {file.mimeType.startsWith('image/') ? <img src={fileUrl(file.id)} alt={file.name} className="w-full h-full object-cover" /> : <FileText size={22} className="opacity-60" />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      {renamingFile?.id === file.id ? (
+                        <input
+                          autoFocus
+                          value={renamingFile.name}
+                          onChange={e => setRenamingFile({ id: file.id, name: e.target.value })}
+                          onKeyDown={e => { if (e.key === 'Enter') handleRenameFile(); if (e.key === 'Escape') setRenamingFile(null); }}
+                          onBlur={() => setRenamingFile(null)}
+                          className={`w-full px-2 py-1 rounded border outline-none text-sm ${theme === 'dark' ? 'bg-[#111] border-[#444]' : 'bg-white border-[#ccc]'}`}
+                        />
+                      ) : (
+                        <div className="font-medium truncate">{file.name}</div>
+                      )}
+                      <div className="text-xs opacity-50 truncate">
+                        {formatBytes(file.size)} · {new Date(file.createdAt).toLocaleDateString()}{file.conversationTitle ? ` · ${file.conversationTitle}` : ''}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm shrink-0">
+                      <button onClick={() => handleUseFileInChat(file)} className={`font-medium ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}>Use in chat</button>
+                      {file.mimeType.startsWith('image/') && (
+                        <button onClick={() => selectEditSource({ attachmentId: file.id, name: file.name })} className="opacity-70 hover:opacity-100">Edit image</button>
+                      )}
+                      <a href={fileUrl(file.id, true)} className="opacity-70 hover:opacity-100">Download</a>
+                      <button onClick={() => setRenamingFile({ id: file.id, name: file.name })} title="Rename" className="opacity-70 hover:opacity-100"><Pencil size={14} /></button>
+                      <button onClick={() => handleDeleteFile(file)} title="Delete" className="opacity-70 hover:opacity-100 hover:text-red-500"><Trash2 size={14} /></button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {view === 'shared' && (
+          <div className="flex flex-col h-full w-full max-w-4xl mx-auto">
+            {!sharedChat ? (
+              <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+                <p className="text-lg opacity-70 mb-6">{sharedChatError || "Loading shared conversation..."}</p>
+                {sharedChatError && <button onClick={() => setView('home')} className={`px-4 py-2 rounded-lg border ${theme === 'dark' ? 'border-[#444] hover:bg-[#222]' : 'border-[#ccc] hover:bg-[#e0e0e0]'}`}>Go to Grok</button>}
+              </div>
+            ) : (
+              <>
+                <div className={`flex items-center justify-between gap-4 px-8 pt-6 pb-4 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                  <div className="min-w-0">
+                    <h2 className="text-xl font-bold truncate">{sharedChat.title}</h2>
+                    <p className="text-xs opacity-60">Shared conversation · read-only · {new Date(sharedChat.createdAt).toLocaleDateString()}</p>
+                  </div>
+                  <button onClick={handleContinueSharedChat} disabled={isForking} className={`shrink-0 px-4 py-2 rounded-lg font-medium disabled:opacity-50 ${theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white'}`}>
+                    {isForking ? 'Copying...' : 'Continue this chat'}
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-8 pb-32 space-y-8">
+                  {sharedChat.messages.map((msg, i) => (
+                    <div key={i} className={`flex flex-col w-full ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                      <div className={`max-w-[80%] p-4 rounded-3xl text-[16px] leading-relaxed ${
+                        msg.role === 'user' 
+                          ? (theme === 'dark' ? 'bg-[#222] text-white' : 'bg-[#e0e0e0] text-black')
+                          : (theme === 'dark' ? 'bg-[#111] text-[#ddd]' : 'bg-[#f0f0f0] text-black')
+                      }`}>
+                        {msg.role === 'user' && msg.attachments.length > 0 && (
+                          <div className="mb-2">
+                            <AttachmentChips attachments={msg.attachments} session={mediaSession} theme={theme} shareToken={sharedChat.token} />
+                          </div>
+                        )}
+                        {msg.role === 'ai' ? (
+                          <div className="markdown-body">
+                            <Markdown remarkPlugins={[remarkGfm]} components={markdownComponents()}>{msg.text}</Markdown>
+                          </div>
+                        ) : (
+                          msg.text
+                        )}
+                        {msg.role === 'ai' && msg.attachments.map(attachment => attachment.mimeType.startsWith('image/') ? (
+                          <a key={attachment.id} href={sharedFileUrl(sharedChat.token, attachment.id)} target="_blank" rel="noreferrer" className="block mt-3">
+                            <img src={sharedFileUrl(sharedChat.token, attachment.id)} alt={attachment.name} className="max-w-full max-h-[60vh] rounded-xl" />
+                          </a>
+                        ) : (
+                          <div key={attachment.id} className="mt-3">
+                            <AttachmentChips attachments={[attachment]} session={mediaSession} theme={theme} shareToken={sharedChat.token} />
+                          </div>
+                        ))}
+                        {msg.codeRuns?.map((run, j) => <CodeRunOutput key={j} run={run} theme={theme} fileUrl={id => sharedFileUrl(sharedChat.token, id)} />)}
+                        {msg.interrupted && (
+                          <div className="mt-2 text-xs opacity-50 italic">Response stopped</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {view === 'grokpedia' && (
+          <div className="w-full max-w-5xl mx-auto p-8 h-full overflow-y-auto">
+            <div ref={articleTopRef} />
+            <div className="flex flex-col items-center mb-8">
+              {!article && (
+                <>
+                  <Book size={64} className="mb-6 opacity-50" />
+                  <h2 className="text-3xl font-bold mb-4">Grokpedia</h2>
+                  <p className="text-lg opacity-70 text-center max-w-md mb-8">The ultimate source of knowledge, curated by Grok.</p>
+                </>
+              )}
+              <div className={`flex items-center rounded-full p-1.5 h-16 border transition-all w-full max-w-2xl ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a] focus-within:border-[#555] focus-within:ring-4 focus-within:ring-white/10' : 'bg-[#f5f5f5] border-[#ddd] focus-within:border-[#999] focus-within:ring-4 focus-within:ring-black/10'}`}>
+                <div className="pl-4 pr-2 text-[#666]">
+                  <Search size={20} />
+                </div>
+                <input 
+                  type="text" 
+                  value={articleQuery}
+                  onChange={e => setArticleQuery(e.target.value)}
+                  placeholder="Search Grokpedia..."
+                  onKeyDown={e => e.key === 'Enter' && openArticle(articleQuery)}
+                  className={`flex-1 bg-transparent border-none outline-none text-[17px] px-2 ${theme === 'dark' ? 'text-white placeholder-[#666]' : 'text-black placeholder-[#999]'}`}
+                />
+              </div>
+              {articleLoading && <p className="mt-4 text-sm opacity-60 animate-pulse">Writing “{articleLoading}”...</p>}
             </div>
+
+            {article ? (
+              <div className="flex gap-8 items-start">
+                <nav className="hidden md:block w-52 shrink-0 sticky top-8 text-sm">
+                  <button onClick={() => setArticle(null)} className="flex items-center gap-1 mb-4 opacity-60 hover:opacity-100"><ChevronLeft size={16} /> All articles</button>
+                  <p className="font-bold mb-2">Contents</p>
+                  <ol className="space-y-1.5 opacity-80">
+                    {article.sections.map((section, i) => (
+                      <li key={i}><a href={`#article-section-${i}`} onClick={e => { e.preventDefault(); document.getElementById(`article-section-${i}`)?.scrollIntoView({ behavior: 'smooth' }); }} className="hover:underline">{i + 1}. {section.heading}</a></li>
+                    ))}
+                    {article.related.length > 0 && <li><a href="#article-related" onClick={e => { e.preventDefault(); document.getElementById('article-related')?.scrollIntoView({ behavior: 'smooth' }); }} className="hover:underline">See also</a></li>}
+                    {article.citations.length > 0 && <li><a href="#article-references" onClick={e => { e.preventDefault(); document.getElementById('article-references')?.scrollIntoView({ behavior: 'smooth' }); }} className="hover:underline">References</a></li>}
+                  </ol>
+                </nav>
+
+                <article className="flex-1 min-w-0">
+                  {article.latestVersion !== undefined && article.latestVersion !== article.version && (
+                    <div className={`mb-4 px-4 py-3 rounded-xl border text-sm flex items-center justify-between ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a]' : 'bg-white border-[#ddd]'}`}>
+                      <span>You are viewing version {article.version} of {article.latestVersion}.</span>
+                      <button onClick={() => openArticleVersion(article.latestVersion!)} className="text-[#00ff9d] hover:underline">View latest</button>
+                    </div>
+                  )}
+                  <h1 className="text-4xl font-bold mb-2">{article.title}</h1>
+                  <div className="flex flex-wrap items-center gap-3 mb-6 text-xs opacity-60">
+                    <span>Version {article.version} · updated {new Date(article.updatedAt).toLocaleDateString()}</span>
+                    <button onClick={toggleArticleVersions} className="flex items-center gap-1 hover:opacity-100 hover:underline"><Clock size={12} /> History</button>
+                    <button onClick={handleRegenerateArticle} disabled={!!articleLoading} className="flex items-center gap-1 hover:opacity-100 hover:underline disabled:opacity-50"><RefreshCw size={12} /> Regenerate</button>
+                    <button onClick={() => setArticleFlag(articleFlag ? null : { section: '', reason: '' })} className="flex items-center gap-1 hover:opacity-100 hover:underline"><Flag size={12} /> Report inaccuracy</button>
+                  </div>
+
+                  {article.openFlags > 0 && (
+                    <p className="mb-4 text-sm opacity-70">{article.openFlags} open {article.openFlags === 1 ? 'report' : 'reports'} · {article.regenerationQueued ? 'a corrected version is being written.' : 'the article is rewritten once more readers report it.'}</p>
+                  )}
+
+                  {articleVersions && (
+                    <div className={`mb-6 rounded-xl border p-3 text-sm ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a]' : 'bg-white border-[#ddd]'}`}>
+                      {articleVersions.map(v => (
+                        <button key={v.version} onClick={() => openArticleVersion(v.version)} className={`w-full flex justify-between px-2 py-1.5 rounded-lg text-left ${v.version === article.version ? 'font-bold' : ''} ${theme === 'dark' ? 'hover:bg-[#222]' : 'hover:bg-[#eee]'}`}>
+                          <span>Version {v.version}{v.model ? ` · ${v.model}` : v.provider ? ` · ${v.provider}` : ''}</span>
+                          <span className="opacity-60">{new Date(v.createdAt).toLocaleString()}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {articleFlag && (
+                    <div className={`mb-6 rounded-xl border p-4 space-y-3 ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a]' : 'bg-white border-[#ddd]'}`}>
+                      <select value={articleFlag.section} onChange={e => setArticleFlag({...articleFlag, section: e.target.value})} className={`w-full px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-white border-[#ccc]'}`}>
+                        <option value="">Whole article</option>
+                        {article.sections.map((section, i) => <option key={i} value={section.heading}>{section.heading}</option>)}
+                      </select>
+                      <textarea
+                        autoFocus
+                        rows={3}
+                        value={articleFlag.reason}
+                        onChange={e => setArticleFlag({...articleFlag, reason: e.target.value})}
+                        placeholder="What is wrong or missing?"
+                        className={`w-full px-3 py-2 rounded-lg border outline-none resize-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-white border-[#ccc]'}`}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button onClick={() => setArticleFlag(null)} className={`px-4 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'border-[#333] hover:bg-[#222]' : 'border-[#ccc] hover:bg-[#e0e0e0]'}`}>Cancel</button>
+                        <button onClick={handleFlagArticle} disabled={!articleFlag.reason.trim()} className="px-4 py-2 rounded-lg text-sm bg-[#00ff9d] text-black font-medium disabled:opacity-50">Submit report</button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="markdown-body">
+                    <p className="text-lg">{article.summary}</p>
+                    {article.sections.map((section, i) => (
+                      <section key={i} id={`article-section-${i}`}>
+                        <h2>{section.heading}</h2>
+                        <Markdown remarkPlugins={[remarkGfm]} components={articleMarkdownComponents}>{withArticleLinks(section.body)}</Markdown>
+                      </section>
+                    ))}
+                    {article.related.length > 0 && (
+                      <section id="article-related">
+                        <h2>See also</h2>
+                        <ul>
+                          {article.related.map(r => (
+                            <li key={r.slug}>
+                              <a href={`#wiki:${encodeURIComponent(r.title)}`} onClick={e => { e.preventDefault(); openArticle(r.title); }} className={r.exists ? 'text-[#00ff9d] hover:underline' : 'text-[#ff8866] hover:underline'} title={r.exists ? undefined : 'Not written yet'}>{r.title}</a>
+                            </li>
+                          ))}
+                        </ul>
+                      </section>
+                    )}
+                    {article.citations.length > 0 && (
+                      <section id="article-references">
+                        <h2>References</h2>
+                        <ol>
+                          {article.citations.map((c, i) => (
+                            <li key={i}><a href={c.url} target="_blank" rel="noopener noreferrer">{c.title || c.url}</a></li>
+                          ))}
+                        </ol>
+                      </section>
+                    )}
+                  </div>
+                </article>
+              </div>
+            ) : (
+              <div>
+                <div className="flex items-center justify-between mb-3 text-sm opacity-70">
+                  <span>{articleQuery.trim() ? `${articleIndex.total} matching ${articleIndex.total === 1 ? 'article' : 'articles'}` : `${articleIndex.total} ${articleIndex.total === 1 ? 'article' : 'articles'}`}</span>
+                  {articleIndex.pages > 1 && (
+                    <div className="flex items-center gap-2">
+                      <button disabled={articleIndex.page <= 1} onClick={() => fetchArticleIndex(articleIndex.page - 1)} className="p-1 rounded hover:opacity-70 disabled:opacity-30"><ChevronLeft size={18} /></button>
+                      <span>{articleIndex.page} / {articleIndex.pages}</span>
+                      <button disabled={articleIndex.page >= articleIndex.pages} onClick={() => fetchArticleIndex(articleIndex.page + 1)} className="p-1 rounded hover:opacity-70 disabled:opacity-30"><ChevronRight size={18} /></button>
+                    </div>
+                  )}
+                </div>
+                {articleQuery.trim() && !articleIndex.articles.some(a => a.title.toLowerCase() === articleQuery.trim().toLowerCase()) && (
+                  <button onClick={() => openArticle(articleQuery)} disabled={!!articleLoading} className={`w-full mb-3 p-4 rounded-xl border text-left transition-colors disabled:opacity-50 ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a]' : 'bg-white border-[#ddd]'} ${theme === 'dark' ? 'hover:border-[#555]' : 'hover:border-[#999]'}`}>
+                    Write an article on <span className="font-bold">“{articleQuery.trim()}”</span>
+                  </button>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {articleIndex.articles.map(a => (
+                    <button key={a.slug} onClick={() => openIndexedArticle(a.slug)} className={`p-4 rounded-xl border text-left transition-colors ${theme === 'dark' ? 'bg-[#161616] border-[#2a2a2a]' : 'bg-white border-[#ddd]'} ${theme === 'dark' ? 'hover:border-[#555]' : 'hover:border-[#999]'}`}>
+                      <p className="font-bold mb-1">{a.title}</p>
+                      <p className="text-sm opacity-60 line-clamp-2">{a.summary}</p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -880,8 +3270,8 @@ export default function App() {
               <div className={`absolute bottom-14 left-0 w-48 rounded-xl border shadow-2xl py-2 ${theme === 'dark' ? 'bg-[#111] border-[#333] text-white' : 'bg-[#f5f5f5] border-[#ddd] text-black'}`}>
                 <div className={`px-4 py-2 cursor-pointer hover:bg-black/10 ${theme === 'dark' ? 'hover:bg-white/10' : ''}`} onClick={() => { setModals({...modals, userMenu: false, settings: true}); }}>Settings</div>
                 <div className={`px-4 py-2 cursor-pointer hover:bg-black/10 ${theme === 'dark' ? 'hover:bg-white/10' : ''}`} onClick={() => { setModals({...modals, userMenu: false, tasks: true}); }}>Tasks</div>
-                <div className={`px-4 py-2 cursor-pointer hover:bg-black/10 ${theme === 'dark' ? 'hover:bg-white/10' : ''}`}>Files</div>
-                <div className={`px-4 py-2 cursor-pointer hover:bg-black/10 ${theme === 'dark' ? 'hover:bg-white/10' : ''}`}>Grokpedia</div>
+                <div className={`px-4 py-2 cursor-pointer hover:bg-black/10 ${theme === 'dark' ? 'hover:bg-white/10' : ''}`} onClick={() => { setModals({...modals, userMenu: false}); setView('files'); }}>Files</div>
+                <div className={`px-4 py-2 cursor-pointer hover:bg-black/10 ${theme === 'dark' ? 'hover:bg-white/10' : ''}`} onClick={() => { setModals({...modals, userMenu: false}); setView('grokpedia'); }}>Grokpedia</div>
                 <div className={`px-4 py-2 cursor-pointer hover:bg-black/10 ${theme === 'dark' ? 'hover:bg-white/10' : ''}`}>Help</div>
                 <div className={`my-1 border-t ${theme === 'dark' ? 'border-[#333]' : 'border-[#ddd]'}`}></div>
                 <div className={`px-4 py-2 cursor-pointer hover:bg-black/10 ${theme === 'dark' ? 'hover:bg-white/10' : ''}`}>Upgrade plan</div>
@@ -900,6 +3290,202 @@ export default function App() {
       
       {/* Modals */}
       
+      {/* Share */}
+      {modals.share && currentConversation && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={(e) => { if(e.target === e.currentTarget) setModals({...modals, share: false}) }}>
+          <div className={`w-[90%] max-w-[520px] rounded-2xl border shadow-2xl p-6 ${theme === 'dark' ? 'bg-[#111] border-[#333] text-white' : 'bg-[#f5f5f5] border-[#ddd] text-black'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xl font-bold">Share chat</h3>
+              <button onClick={() => setModals({...modals, share: false})} className="opacity-60 hover:opacity-100"><X size={18} /></button>
+            </div>
+            <p className="text-sm opacity-60 mb-5">Anyone with the link can read a snapshot of “{currentConversation.title}” as it is now. Later messages are not shared.</p>
+            {!settings.linkSharing ? (
+              <p className="text-sm">Link sharing is turned off. Turn it on in Settings to share chats.</p>
+            ) : (
+              <div className="flex gap-2 mb-5">
+                <select value={shareExpiry} onChange={e => setShareExpiry(e.target.value)} className={`flex-1 px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ccc]'}`}>
+                  <option value="">Never expires</option>
+                  <option value="1">Expires in 1 day</option>
+                  <option value="7">Expires in 7 days</option>
+                  <option value="30">Expires in 30 days</option>
+                </select>
+                <button onClick={handleCreateShare} className={`px-4 py-2 rounded-lg font-medium ${theme === 'dark' ? 'bg-[#00ff9d] text-black' : 'bg-black text-white'}`}>Create link</button>
+              </div>
+            )}
+            {shares.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-bold">Active links</h4>
+                {shares.map(share => (
+                  <div key={share.id} className={`flex items-center gap-2 p-2 rounded-lg border text-sm ${theme === 'dark' ? 'border-[#333]' : 'border-[#ddd]'}`}>
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate font-mono text-xs">{shareUrl(share)}</div>
+                      <div className="text-xs opacity-60">{share.messageCount} messages · {share.expiresAt ? `expires ${new Date(share.expiresAt).toLocaleString()}` : 'no expiry'}</div>
+                    </div>
+                    <button onClick={() => copyShareLink(share)} title="Copy link" className={`p-1.5 rounded-lg ${theme === 'dark' ? 'hover:bg-[#222]' : 'hover:bg-[#e0e0e0]'}`}><Copy size={14} /></button>
+                    <button onClick={() => handleRevokeShare(share)} title="Revoke" className="p-1.5 rounded-lg text-[#ff4444] hover:bg-[#ff4444]/20"><X size={14} /></button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Image Lineage */}
+      {imageLineage && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={(e) => { if(e.target === e.currentTarget) setImageLineage(null) }}>
+          <div className={`w-[90%] max-w-[900px] max-h-[85vh] overflow-y-auto rounded-2xl border shadow-2xl p-6 ${theme === 'dark' ? 'bg-[#111] border-[#333] text-white' : 'bg-[#f5f5f5] border-[#ddd] text-black'}`}>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-xl font-bold">Lineage</h3>
+              <button onClick={() => setImageLineage(null)} className="opacity-60 hover:opacity-100"><X size={18} /></button>
+            </div>
+            <div className="flex items-start gap-3 overflow-x-auto pb-2">
+              {imageLineage.original && (
+                <>
+                  <div className="w-32 shrink-0 text-xs">
+                    <img src={fileUrl(imageLineage.original.id)} alt={imageLineage.original.name} className="w-32 h-32 object-cover rounded-lg" />
+                    <p className="mt-1 opacity-60 truncate">Original · {imageLineage.original.name}</p>
+                  </div>
+                  <ChevronRight size={18} className="shrink-0 mt-14 opacity-40" />
+                </>
+              )}
+              {[...imageLineage.ancestors, imageLineage.image].map((image, i, chain) => (
+                <React.Fragment key={image.id}>
+                  <button onClick={() => openImageLineage(image.id)} className="w-32 shrink-0 text-left text-xs">
+                    <img src={fileUrl(image.attachmentId)} alt={image.prompt} className={`w-32 h-32 object-cover rounded-lg ${image.id === imageLineage.image.id ? 'ring-2 ring-[#00ff9d]' : ''}`} />
+                    <p className="mt-1 opacity-60 line-clamp-2">{image.prompt}</p>
+                  </button>
+                  {i < chain.length - 1 && <ChevronRight size={18} className="shrink-0 mt-14 opacity-40" />}
+                </React.Fragment>
+              ))}
+            </div>
+            <h4 className="text-sm font-bold mt-6 mb-3">Made from this image ({imageLineage.children.length})</h4>
+            {imageLineage.children.length === 0 ? (
+              <p className="text-sm opacity-50">No edits or variations yet.</p>
+            ) : (
+              <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+                {imageLineage.children.map(image => (
+                  <button key={image.id} onClick={() => openImageLineage(image.id)} className="text-left text-xs">
+                    <img src={fileUrl(image.attachmentId)} alt={image.prompt} className="w-full aspect-square object-cover rounded-lg" />
+                    <p className="mt-1 opacity-60 line-clamp-2">{image.prompt}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end gap-3 mt-6 text-sm">
+              <button
+                onClick={() => { const { image } = imageLineage; setImageLineage(null); selectEditSource({ attachmentId: image.attachmentId, name: image.name }); }}
+                className={`px-4 py-2 rounded-xl font-medium ${theme === 'dark' ? 'bg-white text-black hover:bg-gray-200' : 'bg-black text-white hover:bg-gray-800'}`}
+              >
+                Edit this image
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* File Preview */}
+      {previewFile && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={(e) => { if(e.target === e.currentTarget) setPreviewFile(null) }}>
+          <div className={`w-[90%] max-w-[900px] h-[80vh] flex flex-col rounded-2xl border shadow-2xl overflow-hidden ${theme === 'dark' ? 'bg-[#111] border-[#333] text-white' : 'bg-[#f5f5f5] border-[#ddd] text-black'}`}>
+            <div className={`flex items-center justify-between px-4 py-3 border-b ${theme === 'dark' ? 'border-[#333]' : 'border-[#ddd]'}`}>
+              <span className="font-medium truncate">{previewFile.file.name}</span>
+              <button onClick={() => setPreviewFile(null)} className="opacity-60 hover:opacity-100"><X size={18} /></button>
+            </div>
+            <div className="flex-1 overflow-auto flex items-center justify-center">
+              {previewFile.file.mimeType.startsWith('image/') ? (
+                <img src={fileUrl(previewFile.file.id)} alt={previewFile.file.name} className="max-w-full max-h-full object-contain" />
+              ) : previewFile.file.mimeType.startsWith('audio/') ? (
+                <audio controls autoPlay src={fileUrl(previewFile.file.id)} className="w-[80%]" />
+              ) : previewFile.file.mimeType === 'application/pdf' ? (
+                <iframe src={fileUrl(previewFile.file.id)} title={previewFile.file.name} className="w-full h-full border-0" />
+              ) : (
+                <pre className="w-full h-full p-4 text-xs font-mono whitespace-pre-wrap break-all">{previewFile.text ?? "Loading..."}</pre>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Search Palette */}
+      {modals.search && (
+        <div className="fixed inset-0 z-50 flex items-start justify-center pt-[12vh] bg-black/50 backdrop-blur-sm" onClick={(e) => { if(e.target === e.currentTarget) setModals({...modals, search: false}) }}>
+          <div className={`w-[90%] max-w-[640px] max-h-[70vh] flex flex-col rounded-2xl border shadow-2xl ${theme === 'dark' ? 'bg-[#111] border-[#333] text-white' : 'bg-[#f5f5f5] border-[#ddd] text-black'}`}>
+            <div className={`flex items-center gap-3 p-4 border-b ${theme === 'dark' ? 'border-[#333]' : 'border-[#ddd]'}`}>
+              <Search size={20} className="opacity-60" />
+              <input
+                autoFocus
+                type="text"
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'ArrowDown') { e.preventDefault(); setActiveHitIndex(i => Math.min(i + 1, searchHits.length - 1)); }
+                  else if (e.key === 'ArrowUp') { e.preventDefault(); setActiveHitIndex(i => Math.max(i - 1, 0)); }
+                  else if (e.key === 'Enter' && searchHits[activeHitIndex]) handleOpenSearchHit(searchHits[activeHitIndex]);
+                }}
+                placeholder="Search all conversations..."
+                className="flex-1 bg-transparent border-none outline-none text-[17px]"
+              />
+              <span className="text-xs opacity-50">Esc</span>
+            </div>
+            <div className={`flex items-center gap-2 px-4 py-2 text-sm border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+              <div className={`flex rounded-lg border overflow-hidden ${theme === 'dark' ? 'border-[#333]' : 'border-[#ddd]'}`}>
+                {(['keyword', 'semantic'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setSearchMode(mode)}
+                    className={`px-2 py-1 capitalize ${searchMode === mode ? 'bg-[#00ff9d] text-black' : ''}`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+              {searchMode === 'keyword' && (
+                <>
+                  <select
+                    value={searchFilters.role}
+                    onChange={e => setSearchFilters({...searchFilters, role: e.target.value})}
+                    className={`px-2 py-1 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                  >
+                    <option value="">All messages</option>
+                    <option value="user">My messages</option>
+                    <option value="ai">Grok's replies</option>
+                  </select>
+                  <span className="opacity-60 ml-2">From</span>
+                  <input type="date" value={searchFilters.from} onChange={e => setSearchFilters({...searchFilters, from: e.target.value})} className={`px-2 py-1 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`} />
+                  <span className="opacity-60">to</span>
+                  <input type="date" value={searchFilters.to} onChange={e => setSearchFilters({...searchFilters, to: e.target.value})} className={`px-2 py-1 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`} />
+                </>
+              )}
+            </div>
+            <div className="flex-1 overflow-y-auto p-2">
+              {!searchQuery.trim() ? (
+                <div className="text-center opacity-50 py-10">Type to search your conversations.</div>
+              ) : searchHits.length === 0 ? (
+                <div className="text-center opacity-50 py-10">No results.</div>
+              ) : (
+                searchHits.map((hit, i) => (
+                  <div
+                    key={`${hit.conversationId}-${hit.messageId || 'title'}`}
+                    onClick={() => handleOpenSearchHit(hit)}
+                    onMouseEnter={() => setActiveHitIndex(i)}
+                    className={`p-3 rounded-xl cursor-pointer ${i === activeHitIndex ? (theme === 'dark' ? 'bg-[#222]' : 'bg-[#e0e0e0]') : ''}`}
+                  >
+                    <div className="flex justify-between gap-4 text-sm mb-1">
+                      <span className="font-medium truncate">{hit.conversationTitle}</span>
+                      <span className="shrink-0 opacity-50">{hit.role === 'user' ? 'You' : hit.role === 'ai' ? 'Grok' : 'Title'} · {new Date(hit.timestamp).toLocaleDateString()}</span>
+                    </div>
+                    <div className={`text-sm ${theme === 'dark' ? 'text-[#aaa]' : 'text-[#555]'}`}>
+                      <HighlightedText text={hit.snippet} highlights={hit.highlights} />
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Tasks Modal */}
       {modals.tasks && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={(e) => { if(e.target === e.currentTarget) setModals({...modals, tasks: false}) }}>
@@ -921,19 +3507,185 @@ export default function App() {
                   <Plus size={20} />
                 </button>
               </form>
+              <div className="flex justify-end items-center gap-2 mb-3 text-sm">
+                <span className="opacity-50">Sort by</span>
+                <select
+                  value={taskSort}
+                  onChange={e => setTaskSort(e.target.value as 'created' | 'due' | 'priority')}
+                  className={`px-2 py-1 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                >
+                  <option value="created">Newest</option>
+                  <option value="due">Due date</option>
+                  <option value="priority">Priority</option>
+                </select>
+              </div>
               <div className="space-y-3">
                 {tasks.length === 0 ? (
                   <div className="text-center opacity-50 py-10">No tasks yet.</div>
                 ) : (
-                  tasks.map(task => (
-                    <div key={task.id} className={`flex items-center gap-3 p-3 rounded-xl border ${theme === 'dark' ? 'bg-[#161616] border-[#222]' : 'bg-white border-[#eee]'}`}>
-                      <input 
-                        type="checkbox" 
-                        checked={task.completed} 
-                        onChange={() => handleToggleTask(task.id, task.completed)}
-                        className="w-5 h-5 accent-[#00ff9d]"
-                      />
-                      <span className={`flex-1 ${task.completed ? 'line-through opacity-50' : ''}`}>{task.title}</span>
+                  sortedTasks.map(task => (
+                    <div key={task.id} className={`rounded-xl border ${theme === 'dark' ? 'bg-[#161616] border-[#222]' : 'bg-white border-[#eee]'}`}>
+                      <div className="flex items-center gap-3 p-3">
+                        <input 
+                          type="checkbox" 
+                          checked={task.completed} 
+                          onChange={() => handleToggleTask(task.id, task.completed)}
+                          className="w-5 h-5 accent-[#00ff9d]"
+                        />
+                        <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleExpandTask(task)}>
+                          <div className={`truncate ${task.completed ? 'line-through opacity-50' : ''}`}>{task.title}</div>
+                          <div className="flex gap-2 text-xs opacity-60">
+                            <span className={task.priority === 'high' ? 'text-red-500' : task.priority === 'low' ? 'opacity-70' : ''}>{task.priority}</span>
+                            {task.dueDate && <span>Due {new Date(task.dueDate).toLocaleDateString()}</span>}
+                            {task.subtasks.length > 0 && <span>{task.subtasks.filter(s => s.completed).length}/{task.subtasks.length} subtasks</span>}
+                            {task.projectId && <span>{projects.find(p => p.id === task.projectId)?.name}</span>}
+                            {task.nextRunAt && <span className="flex items-center gap-1"><Clock size={11} />{new Date(task.nextRunAt).toLocaleString()}</span>}
+                            {task.lastRunStatus === 'failed' && <span className="text-red-500">last run failed</span>}
+                          </div>
+                        </div>
+                        <button onClick={() => handleDeleteTask(task.id)} title="Delete" className="opacity-50 hover:opacity-100"><Trash2 size={16} /></button>
+                      </div>
+                      {expandedTaskId === task.id && (
+                        <div className="p-3 pt-0 space-y-2 text-sm">
+                          <input
+                            type="text"
+                            defaultValue={task.title}
+                            onBlur={e => { if (e.target.value.trim() && e.target.value !== task.title) updateTask(task.id, { title: e.target.value }); }}
+                            className={`w-full px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                          />
+                          <div className="flex gap-2">
+                            <input
+                              type="date"
+                              value={task.dueDate ? task.dueDate.slice(0, 10) : ''}
+                              onChange={e => updateTask(task.id, { dueDate: e.target.value || null })}
+                              className={`flex-1 px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                            />
+                            <select
+                              value={task.priority}
+                              onChange={e => updateTask(task.id, { priority: e.target.value })}
+                              className={`px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                            >
+                              <option value="low">Low</option>
+                              <option value="medium">Medium</option>
+                              <option value="high">High</option>
+                            </select>
+                            <select
+                              value={task.projectId || ''}
+                              onChange={e => updateTask(task.id, { projectId: e.target.value || null })}
+                              className={`px-3 py-1.5 rounded-lg border outline-none max-w-[140px] ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                            >
+                              <option value="">No project</option>
+                              {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                          </div>
+                          <textarea
+                            rows={2}
+                            defaultValue={task.notes}
+                            onBlur={e => { if (e.target.value !== task.notes) updateTask(task.id, { notes: e.target.value }); }}
+                            placeholder="Notes"
+                            className={`w-full px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                          />
+                          {task.subtasks.map((subtask, j) => (
+                            <div key={subtask.id || j} className="flex items-center gap-2 pl-2">
+                              <input
+                                type="checkbox"
+                                checked={subtask.completed}
+                                onChange={() => updateTask(task.id, { subtasks: task.subtasks.map((s, k) => k === j ? { ...s, completed: !s.completed } : s) })}
+                                className="w-4 h-4 accent-[#00ff9d]"
+                              />
+                              <span className={`flex-1 ${subtask.completed ? 'line-through opacity-50' : ''}`}>{subtask.title}</span>
+                              <button onClick={() => updateTask(task.id, { subtasks: task.subtasks.filter((_, k) => k !== j) })} className="opacity-50 hover:opacity-100"><X size={14} /></button>
+                            </div>
+                          ))}
+                          <form
+                            onSubmit={e => {
+                              e.preventDefault();
+                              if (!subtaskTitle.trim()) return;
+                              updateTask(task.id, { subtasks: [...task.subtasks, { title: subtaskTitle, completed: false }] });
+                              setSubtaskTitle('');
+                            }}
+                            className="flex gap-2 pl-2"
+                          >
+                            <input
+                              type="text"
+                              value={subtaskTitle}
+                              onChange={e => setSubtaskTitle(e.target.value)}
+                              placeholder="Add a subtask"
+                              className="flex-1 bg-transparent outline-none border-b border-transparent focus:border-current py-1"
+                            />
+                            <button type="submit" className="opacity-70 hover:opacity-100"><Plus size={16} /></button>
+                          </form>
+                          <div className={`mt-2 pt-3 border-t space-y-2 ${theme === 'dark' ? 'border-[#222]' : 'border-[#eee]'}`}>
+                            <div className="font-medium opacity-70">Scheduled prompt</div>
+                            <textarea
+                              rows={2}
+                              value={scheduleDraft.prompt}
+                              onChange={e => setScheduleDraft({...scheduleDraft, prompt: e.target.value})}
+                              placeholder="e.g. Summarize today's AI news"
+                              className={`w-full px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                            />
+                            <div className="flex gap-2">
+                              <select
+                                value={scheduleDraft.kind}
+                                onChange={e => setScheduleDraft({...scheduleDraft, kind: e.target.value})}
+                                className={`px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                              >
+                                <option value="none">Not scheduled</option>
+                                <option value="once">Once</option>
+                                <option value="cron">Recurring</option>
+                              </select>
+                              {scheduleDraft.kind === 'once' && (
+                                <input
+                                  type="datetime-local"
+                                  value={scheduleDraft.runAt}
+                                  onChange={e => setScheduleDraft({...scheduleDraft, runAt: e.target.value})}
+                                  className={`flex-1 px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                                />
+                              )}
+                              {scheduleDraft.kind === 'cron' && (
+                                <>
+                                  <select
+                                    value=""
+                                    onChange={e => e.target.value && setScheduleDraft({...scheduleDraft, cron: e.target.value})}
+                                    className={`px-3 py-1.5 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                                  >
+                                    <option value="">Presets...</option>
+                                    <option value="0 9 * * 1-5">Every weekday 9:00</option>
+                                    <option value="0 9 * * *">Every day 9:00</option>
+                                    <option value="0 9 * * 1">Every Monday 9:00</option>
+                                    <option value="0 * * * *">Every hour</option>
+                                  </select>
+                                  <input
+                                    type="text"
+                                    value={scheduleDraft.cron}
+                                    onChange={e => setScheduleDraft({...scheduleDraft, cron: e.target.value})}
+                                    placeholder="min hour day month weekday"
+                                    className={`flex-1 min-w-0 px-3 py-1.5 rounded-lg border outline-none font-mono ${theme === 'dark' ? 'bg-[#111] border-[#333]' : 'bg-[#f5f5f5] border-[#ddd]'}`}
+                                  />
+                                </>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-3">
+                              <button onClick={() => handleSaveSchedule(task.id)} className={`px-3 py-1.5 rounded-lg font-medium ${theme === 'dark' ? 'bg-white text-black' : 'bg-black text-white'}`}>Save schedule</button>
+                              {task.prompt && <button onClick={() => handleRunTaskNow(task.id)} className="opacity-70 hover:opacity-100">Run now</button>}
+                              {task.conversationId && (
+                                <button onClick={() => { setCurrentConversationId(task.conversationId!); setView('chat'); setModals(prev => ({ ...prev, tasks: false })); }} className={`ml-auto ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}>Open chat</button>
+                              )}
+                            </div>
+                            {taskRuns.length > 0 && (
+                              <div className="space-y-1 text-xs">
+                                {taskRuns.map(run => (
+                                  <div key={run.id} className="flex gap-2 opacity-70">
+                                    <span className={run.status === 'failed' ? 'text-red-500' : run.status === 'succeeded' ? 'text-[#00cc7e]' : ''}>{run.status}</span>
+                                    <span>{new Date(run.startedAt).toLocaleString()}</span>
+                                    {run.error && <span className="truncate" title={run.error}>{run.error}</span>}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   ))
                 )}
@@ -943,6 +3695,28 @@ export default function App() {
         </div>
       )}
 
+      {/* Notification Toasts */}
+      {toasts.length > 0 && (
+        <div className="fixed top-4 right-4 z-[60] space-y-2 w-[320px]">
+          {toasts.map(toast => (
+            <div key={toast.id} className={`p-4 rounded-2xl border shadow-2xl flex gap-3 ${theme === 'dark' ? 'bg-[#111] border-[#333] text-white' : 'bg-white border-[#ddd] text-black'}`}>
+              <Bell size={18} className="text-[#00ff9d] shrink-0 mt-0.5" />
+              <div
+                className="flex-1 min-w-0 cursor-pointer"
+                onClick={() => {
+                  if (toast.conversationId) { setCurrentConversationId(toast.conversationId); setView('chat'); }
+                  setToasts(prev => prev.filter(t => t.id !== toast.id));
+                }}
+              >
+                <div className="font-medium truncate">{toast.title}</div>
+                {toast.body && <div className="text-sm opacity-70 line-clamp-2">{toast.body}</div>}
+              </div>
+              <button onClick={() => setToasts(prev => prev.filter(t => t.id !== toast.id))} className="hover:opacity-70 shrink-0"><X size={16} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Create Project Modal */}
       {modals.createProject && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={(e) => { if(e.target === e.currentTarget) setModals({...modals, createProject: false}) }}>
@@ -988,6 +3762,45 @@ export default function App() {
         </div>
       )}
 
+      {/* Project Documents Modal */}
+      {modals.projectDocuments && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={(e) => { if(e.target === e.currentTarget) setModals({...modals, projectDocuments: false}) }}>
+          <div className={`w-[90%] max-w-[600px] rounded-2xl border shadow-2xl ${theme === 'dark' ? 'bg-[#111] border-[#333] text-white' : 'bg-[#f5f5f5] border-[#ddd] text-black'}`}>
+            <div className={`flex justify-between items-center p-4 px-6 border-b ${theme === 'dark' ? 'border-[#333]' : 'border-[#ddd]'}`}>
+              <h2 className="text-xl font-semibold">{projects.find(p => p.id === documentsProjectId)?.name || 'Project'} Documents</h2>
+              <button onClick={() => setModals({...modals, projectDocuments: false})} className="hover:opacity-70"><X size={24} /></button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm opacity-70">Chats in this project answer from these documents and cite them as sources.</p>
+              <button
+                onClick={() => documentInputRef.current?.click()}
+                disabled={isUploadingDocument}
+                className={`w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition-all disabled:opacity-50 ${theme === 'dark' ? 'bg-[#00ff9d] text-black hover:bg-[#00cc7e]' : 'bg-black text-white hover:bg-gray-800'}`}
+              >
+                <Upload size={18} />
+                {isUploadingDocument ? 'Uploading...' : 'Upload Documents'}
+              </button>
+              <input type="file" multiple ref={documentInputRef} onChange={handleUploadDocuments} className="hidden" />
+              <div className="space-y-2 max-h-[300px] overflow-y-auto">
+                {projectDocuments.length === 0 ? (
+                  <p className="text-center opacity-50 py-4">No documents yet.</p>
+                ) : (
+                  projectDocuments.map(doc => (
+                    <div key={doc.id} className={`flex items-center justify-between p-3 rounded-xl border ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}>
+                      <div className="min-w-0">
+                        <div className="truncate">{doc.name}</div>
+                        <div className="text-xs opacity-50">{(doc.size / 1024).toFixed(1)} KB · {new Date(doc.createdAt).toLocaleDateString()}</div>
+                      </div>
+                      <button onClick={() => handleDeleteDocument(doc.id)} className="hover:opacity-70 shrink-0 ml-3"><X size={18} /></button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Settings Modal */}
       {modals.settings && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm" onClick={(e) => { if(e.target === e.currentTarget) setModals({...modals, settings: false}) }}>
@@ -1021,8 +3834,8 @@ export default function App() {
                 <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
                   <span>Theme</span>
                   <div className="flex gap-2">
-                    <button onClick={() => setTheme('light')} className={`px-4 py-2 rounded-lg ${theme === 'light' ? 'bg-[#00ff9d] text-black border-transparent' : 'bg-[#222] border border-[#444]'}`}>Light</button>
-                    <button onClick={() => setTheme('dark')} className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-[#00ff9d] text-black border-transparent' : 'bg-[#e0e0e0] border border-[#ccc]'}`}>Dark</button>
+                    <button onClick={() => saveSettings({ theme: 'light' })} className={`px-4 py-2 rounded-lg ${theme === 'light' ? 'bg-[#00ff9d] text-black border-transparent' : 'bg-[#222] border border-[#444]'}`}>Light</button>
+                    <button onClick={() => saveSettings({ theme: 'dark' })} className={`px-4 py-2 rounded-lg ${theme === 'dark' ? 'bg-[#00ff9d] text-black border-transparent' : 'bg-[#e0e0e0] border border-[#ccc]'}`}>Dark</button>
                   </div>
                 </div>
                 <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
@@ -1054,11 +3867,129 @@ export default function App() {
                     <div className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.notifyThinking ? 'left-[22px]' : 'left-0.5'}`}></div>
                   </div>
                 </div>
+                <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                  <span>Personalize responses with my name</span>
+                  <div onClick={() => toggleSetting('personalize')} className={`w-11 h-6 rounded-full relative cursor-pointer transition-colors ${settings.personalize ? 'bg-[#00ff9d]' : (theme === 'dark' ? 'bg-[#333]' : 'bg-[#ccc]')}`}>
+                    <div className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.personalize ? 'left-[22px]' : 'left-0.5'}`}></div>
+                  </div>
+                </div>
+                <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                  <span>Use my other conversations as context</span>
+                  <div onClick={() => toggleSetting('crossChatMemory')} className={`w-11 h-6 rounded-full relative cursor-pointer transition-colors ${settings.crossChatMemory ? 'bg-[#00ff9d]' : (theme === 'dark' ? 'bg-[#333]' : 'bg-[#ccc]')}`}>
+                    <div className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.crossChatMemory ? 'left-[22px]' : 'left-0.5'}`}></div>
+                  </div>
+                </div>
+                <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                  <span>Let Grok use tools (tasks, projects, search, images)</span>
+                  <div onClick={() => toggleSetting('toolsEnabled')} className={`w-11 h-6 rounded-full relative cursor-pointer transition-colors ${settings.toolsEnabled ? 'bg-[#00ff9d]' : (theme === 'dark' ? 'bg-[#333]' : 'bg-[#ccc]')}`}>
+                    <div className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.toolsEnabled ? 'left-[22px]' : 'left-0.5'}`}></div>
+                  </div>
+                </div>
+                <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                  <span>Response style</span>
+                  <select
+                    value={settings.responseStyle}
+                    onChange={e => saveSettings({ responseStyle: e.target.value })}
+                    className={`px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#222] border-[#444]' : 'bg-[#e0e0e0] border-[#ccc]'}`}
+                  >
+                    <option value="custom">Custom</option>
+                    <option value="concise">Concise</option>
+                    <option value="detailed">Detailed</option>
+                    <option value="formal">Formal</option>
+                  </select>
+                </div>
+              </section>
+
+              {/* Personas Section */}
+              <section>
+                <h3 className={`text-base font-semibold mb-3 ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}>Personas</h3>
+                {personas.map(persona => (
+                  <div key={persona.id} className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                    <div>
+                      <div>{persona.name}</div>
+                      {persona.systemPrompt && <div className="text-sm opacity-60 line-clamp-1">{persona.systemPrompt}</div>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => handleSetDefaultPersona(defaultPersonaId === persona.id ? null : persona.id)} className={`px-3 py-1.5 rounded-lg text-sm ${defaultPersonaId === persona.id ? 'bg-[#00ff9d] text-black' : (theme === 'dark' ? 'bg-[#222] border border-[#444]' : 'bg-[#e0e0e0] border border-[#ccc]')}`}>
+                        {defaultPersonaId === persona.id ? 'Default' : 'Set default'}
+                      </button>
+                      <button onClick={() => handleDeletePersona(persona.id)} className="p-1.5 rounded-lg text-[#ff4444] hover:bg-[#ff4444]/20"><X size={16} /></button>
+                    </div>
+                  </div>
+                ))}
+                <form onSubmit={handleCreatePersona} className="pt-3 space-y-2">
+                  <div className="flex gap-2">
+                    <input
+                      required
+                      type="text"
+                      value={personaForm.name}
+                      onChange={e => setPersonaForm({...personaForm, name: e.target.value})}
+                      placeholder="Persona name"
+                      className={`flex-1 px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333] focus:border-[#00ff9d]' : 'bg-white border-[#ddd] focus:border-black'}`}
+                    />
+                    <select
+                      value={personaForm.model}
+                      onChange={e => setPersonaForm({...personaForm, model: e.target.value})}
+                      className={`px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333]' : 'bg-white border-[#ddd]'}`}
+                    >
+                      <option value="">Default model</option>
+                      {modelOptions.map(o => (
+                        <option key={`${o.provider}:${o.model}`} value={`${o.provider}:${o.model}`}>{o.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number" min={0} max={2} step={0.1}
+                      value={personaForm.temperature}
+                      onChange={e => setPersonaForm({...personaForm, temperature: e.target.value})}
+                      placeholder="Temp."
+                      className={`w-20 px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333] focus:border-[#00ff9d]' : 'bg-white border-[#ddd] focus:border-black'}`}
+                    />
+                  </div>
+                  <textarea
+                    rows={2}
+                    value={personaForm.systemPrompt}
+                    onChange={e => setPersonaForm({...personaForm, systemPrompt: e.target.value})}
+                    placeholder="System prompt"
+                    className={`w-full px-3 py-2 rounded-lg border outline-none ${theme === 'dark' ? 'bg-[#161616] border-[#333] focus:border-[#00ff9d]' : 'bg-white border-[#ddd] focus:border-black'}`}
+                  />
+                  <div className="flex justify-end">
+                    <button type="submit" className={`px-4 py-2 rounded-lg font-medium ${theme === 'dark' ? 'bg-[#00ff9d] text-black' : 'bg-black text-white'}`}>Add persona</button>
+                  </div>
+                </form>
+              </section>
+
+              {/* Sharing Section */}
+              <section>
+                <h3 className={`text-base font-semibold mb-3 ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}>Sharing</h3>
+                <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                  <span>Allow shared links (turning this off disables existing links)</span>
+                  <div onClick={() => toggleSetting('linkSharing')} className={`w-11 h-6 rounded-full relative cursor-pointer transition-colors ${settings.linkSharing ? 'bg-[#00ff9d]' : (theme === 'dark' ? 'bg-[#333]' : 'bg-[#ccc]')}`}>
+                    <div className={`w-5 h-5 bg-white rounded-full absolute top-0.5 transition-all ${settings.linkSharing ? 'left-[22px]' : 'left-0.5'}`}></div>
+                  </div>
+                </div>
+                {shares.length === 0 ? (
+                  <p className="py-3 text-sm opacity-60">No active shared links.</p>
+                ) : shares.map(share => (
+                  <div key={share.id} className={`flex justify-between items-center gap-3 py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                    <div className="min-w-0">
+                      <div className="truncate">{share.title}</div>
+                      <div className="text-sm opacity-60">Shared {new Date(share.createdAt).toLocaleDateString()} · {share.expiresAt ? `expires ${new Date(share.expiresAt).toLocaleDateString()}` : 'no expiry'}</div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button onClick={() => copyShareLink(share)} title="Copy link" className={`p-1.5 rounded-lg ${theme === 'dark' ? 'hover:bg-[#222]' : 'hover:bg-[#e0e0e0]'}`}><Copy size={16} /></button>
+                      <button onClick={() => handleRevokeShare(share)} className="px-3 py-1.5 rounded-lg text-sm text-[#ff4444] hover:bg-[#ff4444]/20">Revoke</button>
+                    </div>
+                  </div>
+                ))}
               </section>
 
               {/* Data Controls Section */}
               <section>
                 <h3 className={`text-base font-semibold mb-3 ${theme === 'dark' ? 'text-[#00ff9d]' : 'text-[#006633]'}`}>Data Controls</h3>
+                <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
+                  <span>Export Account Data</span>
+                  <button onClick={handleExportData} className={`px-4 py-2 rounded-lg border ${theme === 'dark' ? 'bg-[#222] border-[#444] hover:bg-[#333]' : 'bg-[#e0e0e0] border-[#ccc] hover:bg-[#d0d0d0]'}`}>Export</button>
+                </div>
                 <div className={`flex justify-between items-center py-3 border-b ${theme === 'dark' ? 'border-[#222]' : 'border-[#ddd]'}`}>
                   <span>Delete All Conversations</span>
                   <button onClick={handleDeleteAll} className="px-4 py-2 rounded-lg bg-[#ff4444] text-white hover:bg-[#ff3333] border-none font-medium">Delete</button>